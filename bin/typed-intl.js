@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+'use strict';
+
+var fs = require('fs');
+var path = require('path');
+var typedIntl = require('../dist/index.js');
+
+function makeDirectory(dir) {
+    if (!fs.existsSync(dir)) {
+        makeDirectory(path.dirname(dir));
+        fs.mkdirSync(dir);
+    }
+}
+
+function resolveModule(id) {
+    var file = path.resolve(id);
+    return fs.existsSync(file) || fs.existsSync(file + '.js') || fs.existsSync(file + '.ts') ?
+        file :
+        require.resolve(id, {paths: [process.cwd()]});
+}
+
+typedIntl.runCli(process.argv.slice(2), {
+    readFile: function (file) {
+        return fs.readFileSync(file, 'utf-8');
+    },
+    writeFile: function (file, content) {
+        makeDirectory(path.dirname(path.resolve(file)));
+        fs.writeFileSync(file, content, 'utf-8');
+    },
+    loadModule: function (id) {
+        return require(resolveModule(id));
+    },
+    print: function (text) {
+        process.stdout.write(text);
+    },
+    printError: function (text) {
+        process.stderr.write(text);
+    }
+}).then(function (exitCode) {
+    process.exitCode = exitCode;
+});
@@ -0,0 +1,144 @@
+import { describeFormatter } from './Format';
+import { ArgumentTypes } from './MessageArguments';
+import { DeepPartial, MessageProvider, Messages, Translator, TranslatorStructure } from './Translator';
+
+/**
+ * The kind of a message found in a [[Messages]] object:
+ *
+ * - `string` for plain string messages,
+ * - the function that created a message function, e.g. `formatTyped` for [[formatTyped]] (see
+ *   [[FormatterDescription.kind]]),
+ * - `function` for any other message function.
+ */
+export type CatalogMessageKind =
+    'string' | 'format' | 'formatObject' | 'formatNamed' | 'formatTyped' | 'formatRich' | 'plural' | 'function';
+
+/**
+ * A single message of a [[Messages]] object as seen by tools like exporters.
+ */
+export interface CatalogMessage {
+    /**
+     * The key of the message. Keys of nested namespaces are separated by dots (e.g. `task.add`).
+     */
+    readonly key: string;
+
+    /**
+     * The kind of the message.
+     */
+    readonly kind: CatalogMessageKind;
+
+    /**
+     * The text of the message in [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/} if it is
+     * available, which is the case for all messages but `function`s and some [[plural]]s
+     * (see [[FormatterDescription.msgFormat]]).
+     */
+    readonly text?: string;
+
+    /**
+     * The declared arguments of a `formatTyped` or `formatRich` message.
+     */
+    readonly argumentTypes?: ArgumentTypes;
+
+    /**
+     * The tags of a `formatRich` message.
+     */
+    readonly tags?: string[];
+
+    /**
+     * The texts of the cases of a `plural` message by CLDR plural category (see [[FormatterDescription.forms]]).
+     */
+    readonly forms?: { [category: string]: string };
+}
+
+/**
+ * A [[Translator]] found by [[catalogTranslators]] together with an identifier unique among all translators found.
+ */
+export interface CatalogTranslator {
+    readonly id: string;
+    readonly translator: Translator<Messages>;
+}
+
+/**
+ * A [[MessageProvider]] to be examined by [[catalogTranslators]].
+ */
+export interface CatalogProvider {
+    /**
+     * Identifies the provider, e.g. by the module and the name it is exported as.
+     */
+    readonly id: string;
+    readonly provider: MessageProvider<Messages>;
+}
+
+interface MessageObject {
+    [key: string]: {} | undefined;
+}
+
+function catalogMessage(key: string, message: {}): CatalogMessage {
+    if (typeof message === 'string') {
+        return {key, kind: 'string', text: message};
+    }
+    const description = describeFormatter(message as Function);
+    return description ? {
+        key,
+        kind: description.kind,
+        text: description.msgFormat,
+        argumentTypes: description.argumentTypes,
+        forms: description.forms,
+        tags: description.tags
+    } : {key, kind: 'function'};
+}
+
+/**
+ * Lists all messages of a (possibly partial) [[Messages]] object, including the messages of nested namespaces.
+ *
+ * @param messages the messages to list.
+ * @returns the messages in the order of their keys' definition.
+ */
+export function catalogMessages<M extends Messages>(messages: M | DeepPartial<M>): CatalogMessage[] {
+    const result: CatalogMessage[] = [];
+    function collect(namespace: MessageObject, prefix: string): void {
+        for (const key of Object.keys(namespace)) {
+            const message = namespace[key];
+            if (typeof message === 'object' && message !== null) {
+                collect(message as MessageObject, `${prefix}${key}.`);
+            } else if (message !== undefined) {
+                result.push(catalogMessage(prefix + key, message));
+            }
+        }
+    }
+    collect(messages as {} as MessageObject, '');
+    return result;
+}
+
+function isTranslatorStructure(structure: {}): structure is TranslatorStructure {
+    return (structure as TranslatorStructure).translator !== undefined;
+}
+
+/**
+ * Finds all [[Translator]]s the specified providers consist of, following their [[Translator.extending]] chains.
+ *
+ * Translators provided directly keep the provider's id. Translators only reachable through an `extending()` chain get
+ * the id of the extending provider suffixed with `/base`. Each translator is listed once.
+ *
+ * @param providers the providers to examine.
+ * @returns the translators found.
+ */
+export function catalogTranslators(providers: CatalogProvider[]): CatalogTranslator[] {
+    const ids: Map<Translator<Messages>, string> = new Map();
+    function add(id: string, provider: MessageProvider<Messages>): void {
+        const structure = provider.inspect();
+        if (isTranslatorStructure(structure)) {
+            if (!ids.has(structure.translator)) {
+                ids.set(structure.translator, id);
+            }
+        } else {
+            add(id, structure.extension);
+            add(`${id}/base`, structure.base);
+        }
+    }
+    providers
+        .filter(p => isTranslatorStructure(p.provider.inspect()))
+        .forEach(p => add(p.id, p.provider));
+    providers.forEach(p => add(p.id, p.provider));
+    return Array.from(ids.entries()).map(([translator, id]) => ({id, translator}));
+}
@@ -0,0 +1,49 @@
+import { likelySubtags, listPatterns, parentLocales } from './CldrData';
+
+interface IntlLocale {
+    maximize(): { toString(): string };
+}
+
+interface IntlListFormat {
+    format(items: string[]): string;
+}
+
+interface IntlWithLocale {
+    Locale: new (tag: string) => IntlLocale;
+    ListFormat: new (tag: string, options: { type: string, style: string }) => IntlListFormat;
+}
+
+const Locale = (Intl as {} as IntlWithLocale).Locale;
+const ListFormat = (Intl as {} as IntlWithLocale).ListFormat;
+
+describe('likelySubtags', () => {
+    it('must match the likely subtags of the CLDR', () => {
+        Object.keys(likelySubtags).forEach(tag =>
+            expect(`${tag}: ${likelySubtags[tag]}`).toBe(`${tag}: ${new Locale(tag).maximize()}`));
+    });
+});
+
+describe('parentLocales', () => {
+    it('must only provide parents of the same language', () => {
+        Object.keys(parentLocales).forEach(tag =>
+            expect(parentLocales[tag].split('-')[0]).toBe(tag.split('-')[0]));
+    });
+});
+
+function intlListPatterns(language: string, type: string, style: string): string[] {
+    const listFormat = new ListFormat(language, {type, style});
+    const connectives = /^\{0\}(.*)\{1\}(.*)\{2\}(.*)\{3\}$/.exec(listFormat.format(['{0}', '{1}', '{2}', '{3}']))!;
+    return [listFormat.format(['{0}', '{1}'])].concat(connectives.slice(1).map(connective => `{0}${connective}{1}`));
+}
+
+describe('listPatterns', () => {
+    it('must match the list patterns of the CLDR', () => {
+        Object.keys(listPatterns).forEach(language => ['conjunction', 'disjunction', 'unit'].forEach(type =>
+            ['long', 'short', 'narrow'].forEach(style => {
+                const patterns = listPatterns[language];
+                const bundled = patterns[`${type}-${style}`] || patterns[type] || patterns.conjunction;
+                expect([language, type, style].concat(bundled))
+                    .toEqual([language, type, style].concat(intlListPatterns(language, type, style)));
+            })));
+    });
+});
@@ -0,0 +1,321 @@
+/**
+ * A subset of the [CLDR likely subtags](https://www.unicode.org/reports/tr35/#Likely_Subtags) covering the most widely
+ * used languages. Besides the language alone, there are entries for scripts and regions changing the likely region
+ * respectively script of a language (e.g. `zh-TW` is written in traditional Chinese).
+ */
+export const likelySubtags: { [tag: string]: string } = {
+    'und': 'en-Latn-US', 'und-Arab': 'ar-Arab-EG', 'und-Cyrl': 'ru-Cyrl-RU', 'und-Latn': 'en-Latn-US',
+    'und-Hans': 'zh-Hans-CN', 'und-Hant': 'zh-Hant-TW', 'und-Deva': 'hi-Deva-IN', 'und-Beng': 'bn-Beng-BD',
+    'und-Guru': 'pa-Guru-IN', 'und-Grek': 'el-Grek-GR', 'und-Hebr': 'he-Hebr-IL', 'und-Mong': 'mn-Mong-CN',
+    'und-Tfng': 'zgh-Tfng-MA', 'und-Adlm': 'ff-Adlm-GN', 'und-Olck': 'sat-Olck-IN', 'und-Thaa': 'dv-Thaa-MV',
+    'af': 'af-Latn-ZA', 'am': 'am-Ethi-ET', 'ar': 'ar-Arab-EG', 'as': 'as-Beng-IN', 'az': 'az-Latn-AZ',
+    'az-Arab': 'az-Arab-IR', 'az-IR': 'az-Arab-IR', 'az-IQ': 'az-Arab-IQ', 'az-RU': 'az-Cyrl-RU', 'be': 'be-Cyrl-BY',
+    'bg': 'bg-Cyrl-BG', 'bn': 'bn-Beng-BD', 'bs': 'bs-Latn-BA', 'ca': 'ca-Latn-ES', 'cs': 'cs-Latn-CZ',
+    'cy': 'cy-Latn-GB', 'da': 'da-Latn-DK', 'de': 'de-Latn-DE', 'el': 'el-Grek-GR', 'en': 'en-Latn-US',
+    'es': 'es-Latn-ES', 'et': 'et-Latn-EE', 'eu': 'eu-Latn-ES', 'fa': 'fa-Arab-IR', 'fi': 'fi-Latn-FI',
+    'fil': 'fil-Latn-PH', 'fr': 'fr-Latn-FR', 'ga': 'ga-Latn-IE', 'gl': 'gl-Latn-ES', 'gu': 'gu-Gujr-IN',
+    'ha': 'ha-Latn-NG', 'he': 'he-Hebr-IL', 'hi': 'hi-Deva-IN', 'hr': 'hr-Latn-HR', 'hu': 'hu-Latn-HU',
+    'hy': 'hy-Armn-AM', 'id': 'id-Latn-ID', 'ig': 'ig-Latn-NG', 'is': 'is-Latn-IS', 'it': 'it-Latn-IT',
+    'ja': 'ja-Jpan-JP', 'jv': 'jv-Latn-ID', 'ka': 'ka-Geor-GE', 'kk': 'kk-Cyrl-KZ', 'kk-Arab': 'kk-Arab-CN',
+    'kk-AF': 'kk-Arab-AF', 'kk-CN': 'kk-Arab-CN', 'kk-IR': 'kk-Arab-IR', 'km': 'km-Khmr-KH', 'kn': 'kn-Knda-IN',
+    'ko': 'ko-Kore-KR', 'ky': 'ky-Cyrl-KG', 'ky-Arab': 'ky-Arab-CN', 'ky-Latn': 'ky-Latn-TR', 'ky-CN': 'ky-Arab-CN',
+    'ky-TR': 'ky-Latn-TR', 'lo': 'lo-Laoo-LA', 'lt': 'lt-Latn-LT', 'lv': 'lv-Latn-LV', 'mk': 'mk-Cyrl-MK',
+    'ml': 'ml-Mlym-IN', 'mn': 'mn-Cyrl-MN', 'mn-Mong': 'mn-Mong-CN', 'mn-CN': 'mn-Mong-CN', 'mr': 'mr-Deva-IN',
+    'ms': 'ms-Latn-MY', 'mt': 'mt-Latn-MT', 'my': 'my-Mymr-MM', 'nb': 'nb-Latn-NO', 'ne': 'ne-Deva-NP',
+    'nl': 'nl-Latn-NL', 'nn': 'nn-Latn-NO', 'no': 'no-Latn-NO', 'or': 'or-Orya-IN', 'pa': 'pa-Guru-IN',
+    'pa-Arab': 'pa-Arab-PK', 'pa-PK': 'pa-Arab-PK', 'pl': 'pl-Latn-PL', 'ps': 'ps-Arab-AF', 'pt': 'pt-Latn-BR',
+    'ro': 'ro-Latn-RO', 'ru': 'ru-Cyrl-RU', 'rw': 'rw-Latn-RW', 'sd': 'sd-Arab-PK', 'sd-Deva': 'sd-Deva-IN',
+    'sd-IN': 'sd-Deva-IN', 'si': 'si-Sinh-LK', 'sk': 'sk-Latn-SK', 'sl': 'sl-Latn-SI', 'so': 'so-Latn-SO',
+    'sq': 'sq-Latn-AL', 'sr': 'sr-Cyrl-RS', 'sr-ME': 'sr-Latn-ME', 'sr-TR': 'sr-Latn-TR', 'sv': 'sv-Latn-SE',
+    'sw': 'sw-Latn-TZ', 'ta': 'ta-Taml-IN', 'te': 'te-Telu-IN', 'tg': 'tg-Cyrl-TJ', 'tg-Arab': 'tg-Arab-PK',
+    'tg-PK': 'tg-Arab-PK', 'th': 'th-Thai-TH', 'tk': 'tk-Latn-TM', 'tr': 'tr-Latn-TR', 'uk': 'uk-Cyrl-UA',
+    'ur': 'ur-Arab-PK', 'uz': 'uz-Latn-UZ', 'uz-Arab': 'uz-Arab-AF', 'uz-AF': 'uz-Arab-AF', 'uz-CN': 'uz-Cyrl-CN',
+    'vi': 'vi-Latn-VN', 'yo': 'yo-Latn-NG', 'zh': 'zh-Hans-CN', 'zh-Hant': 'zh-Hant-TW', 'zh-AU': 'zh-Hant-AU',
+    'zh-GB': 'zh-Hant-GB', 'zh-HK': 'zh-Hant-HK', 'zh-MO': 'zh-Hant-MO', 'zh-TW': 'zh-Hant-TW', 'zh-US': 'zh-Hant-US',
+    'zu': 'zu-Latn-ZA', 'gsw': 'gsw-Latn-CH', 'lb': 'lb-Latn-LU', 'yue': 'yue-Hant-HK'
+};
+
+/**
+ * The CLDR parent locales overriding the parent obtained by truncating the last subtag, by parent locale.
+ * Tags written in another script than the default of their language (e.g. `zh-Hant` or `sr-Latn`) inherit from
+ * root, which is derived from [[likelySubtags]] instead of being listed here.
+ */
+const parentLocaleGroups: { [parent: string]: string[] } = {
+    'en-001': [
+        'en-150', 'en-AG', 'en-AI', 'en-AU', 'en-BB', 'en-BM', 'en-BS', 'en-BW', 'en-BZ', 'en-CC', 'en-CK', 'en-CM',
+        'en-CX', 'en-CY', 'en-DG', 'en-DM', 'en-ER', 'en-FJ', 'en-FK', 'en-FM', 'en-GB', 'en-GD', 'en-GG', 'en-GH',
+        'en-GI', 'en-GM', 'en-GY', 'en-HK', 'en-IE', 'en-IL', 'en-IM', 'en-IN', 'en-IO', 'en-JE', 'en-JM', 'en-KE',
+        'en-KI', 'en-KN', 'en-KY', 'en-LC', 'en-LR', 'en-LS', 'en-MG', 'en-MO', 'en-MS', 'en-MT', 'en-MU', 'en-MV',
+        'en-MW', 'en-MY', 'en-NA', 'en-NF', 'en-NG', 'en-NR', 'en-NU', 'en-NZ', 'en-PG', 'en-PK', 'en-PN', 'en-PW',
+        'en-RW', 'en-SB', 'en-SC', 'en-SD', 'en-SG', 'en-SH', 'en-SL', 'en-SS', 'en-SX', 'en-SZ', 'en-TC', 'en-TK',
+        'en-TO', 'en-TT', 'en-TV', 'en-TZ', 'en-UG', 'en-VC', 'en-VG', 'en-VU', 'en-WS', 'en-ZA', 'en-ZM', 'en-ZW'
+    ],
+    'en-150': ['en-AT', 'en-BE', 'en-CH', 'en-DE', 'en-DK', 'en-FI', 'en-NL', 'en-SE', 'en-SI'],
+    'es-419': [
+        'es-AR', 'es-BO', 'es-BR', 'es-BZ', 'es-CL', 'es-CO', 'es-CR', 'es-CU', 'es-DO', 'es-EC', 'es-GT', 'es-HN',
+        'es-MX', 'es-NI', 'es-PA', 'es-PE', 'es-PR', 'es-PY', 'es-SV', 'es-US', 'es-UY', 'es-VE'
+    ],
+    'pt-PT': [
+        'pt-AO', 'pt-CH', 'pt-CV', 'pt-FR', 'pt-GQ', 'pt-GW', 'pt-LU', 'pt-MO', 'pt-MZ', 'pt-ST', 'pt-TL'
+    ],
+    'zh-Hant-HK': ['zh-Hant-MO']
+};
+
+/**
+ * The CLDR parent locale by tag.
+ */
+export const parentLocales: { [tag: string]: string } = {};
+Object.keys(parentLocaleGroups).forEach(parent =>
+    parentLocaleGroups[parent].forEach(tag => parentLocales[tag] = parent));
+
+/**
+ * A rule of the [CLDR language matching](https://www.unicode.org/reports/tr35/tr35.html#LanguageMatching) defining
+ * the distance of a desired to a supported language or script. Rules apply in both directions unless `oneway`.
+ */
+export interface MatchRule {
+    desired: string;
+    supported: string;
+    distance: number;
+    oneway?: boolean;
+}
+
+/**
+ * A subset of the CLDR language matching distances of closely related languages. Unrelated languages have a distance
+ * of `80`.
+ */
+export const languageMatchRules: MatchRule[] = [
+    {desired: 'no', supported: 'nb', distance: 1},
+    {desired: 'nn', supported: 'nb', distance: 20},
+    {desired: 'nn', supported: 'no', distance: 20},
+    {desired: 'bs', supported: 'hr', distance: 4},
+    {desired: 'id', supported: 'ms', distance: 15},
+    {desired: 'gsw', supported: 'de', distance: 4, oneway: true},
+    {desired: 'lb', supported: 'de', distance: 4, oneway: true},
+    {desired: 'yue', supported: 'zh', distance: 10, oneway: true}
+];
+
+/**
+ * The CLDR language matching distances of scripts by `language-Script`. Other scripts have a distance of `50`.
+ */
+export const scriptMatchRules: MatchRule[] = [
+    {desired: 'zh-Hans', supported: 'zh-Hant', distance: 15, oneway: true},
+    {desired: 'zh-Hant', supported: 'zh-Hans', distance: 19, oneway: true}
+];
+
+const americas = [
+    '419', 'AG', 'AI', 'AR', 'AW', 'BB', 'BL', 'BM', 'BO', 'BQ', 'BR', 'BS', 'BZ', 'CA', 'CL', 'CO', 'CR', 'CU', 'CW',
+    'DM', 'DO', 'EC', 'FK', 'GD', 'GF', 'GL', 'GP', 'GS', 'GT', 'GY', 'HN', 'HT', 'JM', 'KN', 'KY', 'LC', 'MF', 'MQ',
+    'MS', 'MX', 'NI', 'PA', 'PE', 'PM', 'PR', 'PY', 'SR', 'SV', 'SX', 'TC', 'TT', 'US', 'UY', 'VC', 'VE', 'VG', 'VI'
+];
+
+/**
+ * The region clusters of the CLDR language matching by language: regions inside the same cluster have a distance of
+ * `4`, regions of different clusters a distance of `5`. For all other languages regions have a distance of `4`.
+ */
+export const regionClusters: { [language: string]: string[] } = {
+    en: ['AS', 'GU', 'MH', 'MP', 'PR', 'UM', 'US', 'VI'],
+    es: americas,
+    pt: americas
+};
+
+/**
+ * Regions preferred by speakers outside the [[regionClusters]] of the language with a distance of `3` (e.g. British
+ * English for Australians).
+ */
+export const preferredRegions: { [language: string]: string } = {
+    en: 'GB'
+};
+
+/**
+ * The paradigm locales of the CLDR language matching, which are preferred over other locales of the same distance.
+ */
+export const paradigmLocales = ['en-Latn-US', 'en-Latn-GB', 'es-Latn-ES', 'es-Latn-419', 'pt-Latn-BR', 'pt-Latn-PT'];
+
+/**
+ * The [CLDR list patterns](https://www.unicode.org/reports/tr35/tr35-general.html#ListPatterns) of a list type and
+ * style: the pattern for two items followed by the patterns combining the start, middle and end of longer lists.
+ */
+export type ListPatterns = [string, string, string, string];
+
+/**
+ * The CLDR list patterns of widely used languages by `type-style` (e.g. `disjunction-short`). The style `long` is
+ * omitted from the key, patterns equal to the `long` style of the type and types equal to `conjunction` are omitted.
+ */
+export const listPatterns: { [language: string]: { [typeAndStyle: string]: ListPatterns } } = {
+    ar: {
+        conjunction: ['{0} و{1}', '{0} و{1}', '{0} و{1}', '{0} و{1}'],
+        disjunction: ['{0} أو {1}', '{0} أو {1}', '{0} أو {1}', '{0} أو {1}'],
+        unit: ['{0} و{1}', '{0}، و{1}', '{0}، و{1}', '{0}، و{1}'],
+        'unit-narrow': ['{0} و{1}', '{0} و{1}', '{0} و{1}', '{0} و{1}']
+    },
+    cs: {
+        conjunction: ['{0} a\u00a0{1}', '{0}, {1}', '{0}, {1}', '{0} a\u00a0{1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} nebo {1}', '{0}, {1}', '{0}, {1}', '{0} nebo {1}'],
+        'unit-short': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0} a\u00a0{1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    da: {
+        conjunction: ['{0} og {1}', '{0}, {1}', '{0}, {1}', '{0} og {1}'],
+        disjunction: ['{0} eller {1}', '{0}, {1}', '{0}, {1}', '{0} eller {1}'],
+        'disjunction-short': ['{0} el. {1}', '{0}, {1}', '{0}, {1}', '{0} el. {1}'],
+        'disjunction-narrow': ['{0} el. {1}', '{0}, {1}', '{0}, {1}', '{0} el. {1}']
+    },
+    de: {
+        conjunction: ['{0} und {1}', '{0}, {1}', '{0}, {1}', '{0} und {1}'],
+        disjunction: ['{0} oder {1}', '{0}, {1}', '{0}, {1}', '{0} oder {1}'],
+        unit: ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0} und {1}']
+    },
+    el: {
+        conjunction: ['{0} και {1}', '{0}, {1}', '{0}, {1}', '{0} και {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} ή {1}', '{0}, {1}', '{0}, {1}', '{0} ή {1}'],
+        unit: ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    en: {
+        conjunction: ['{0} and {1}', '{0}, {1}', '{0}, {1}', '{0}, and {1}'],
+        'conjunction-short': ['{0} & {1}', '{0}, {1}', '{0}, {1}', '{0}, & {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} or {1}', '{0}, {1}', '{0}, {1}', '{0}, or {1}'],
+        unit: ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    es: {
+        conjunction: ['{0} y {1}', '{0}, {1}', '{0}, {1}', '{0} y {1}'],
+        disjunction: ['{0} o {1}', '{0}, {1}', '{0}, {1}', '{0} o {1}'],
+        'unit-short': ['{0} y {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    fi: {
+        conjunction: ['{0} ja {1}', '{0}, {1}', '{0}, {1}', '{0} ja {1}'],
+        disjunction: ['{0} tai {1}', '{0}, {1}', '{0}, {1}', '{0} tai {1}'],
+        'unit-short': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    fr: {
+        conjunction: ['{0} et {1}', '{0}, {1}', '{0}, {1}', '{0} et {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} ou {1}', '{0}, {1}', '{0}, {1}', '{0} ou {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    he: {
+        conjunction: ['{0} ו-{1}', '{0}, {1}', '{0}, {1}', '{0} ו-{1}'],
+        disjunction: ['{0} או {1}', '{0}, {1}', '{0}, {1}', '{0} או {1}'],
+        unit: ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0} ו-{1}'],
+        'unit-short': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    hi: {
+        conjunction: ['{0} और {1}', '{0}, {1}', '{0}, {1}', '{0}, और {1}'],
+        'conjunction-short': ['{0} और {1}', '{0}, {1}', '{0}, {1}', '{0} और {1}'],
+        'conjunction-narrow': ['{0} और {1}', '{0}, {1}', '{0}, {1}', '{0} और {1}'],
+        disjunction: ['{0} या {1}', '{0}, {1}', '{0}, {1}', '{0} या {1}'],
+        'unit-short': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0} {1}', '{0}, {1}', '{0}, {1}', '{0} {1}']
+    },
+    hu: {
+        conjunction: ['{0} és {1}', '{0}, {1}', '{0}, {1}', '{0} és {1}'],
+        disjunction: ['{0} vagy {1}', '{0}, {1}', '{0}, {1}', '{0} vagy {1}']
+    },
+    id: {
+        conjunction: ['{0} dan {1}', '{0}, {1}', '{0}, {1}', '{0}, dan {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} atau {1}', '{0}, {1}', '{0}, {1}', '{0}, atau {1}'],
+        unit: ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}']
+    },
+    it: {
+        conjunction: ['{0} e {1}', '{0}, {1}', '{0}, {1}', '{0} e {1}'],
+        disjunction: ['{0} o {1}', '{0}, {1}', '{0}, {1}', '{0} o {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    ja: {
+        conjunction: ['{0}、{1}', '{0}、{1}', '{0}、{1}', '{0}、{1}'],
+        disjunction: ['{0}または{1}', '{0}、{1}', '{0}、{1}', '{0}、または{1}'],
+        unit: ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}'],
+        'unit-narrow': ['{0}{1}', '{0}{1}', '{0}{1}', '{0}{1}']
+    },
+    ko: {
+        conjunction: ['{0} 및 {1}', '{0}, {1}', '{0}, {1}', '{0} 및 {1}'],
+        disjunction: ['{0} 또는 {1}', '{0}, {1}', '{0}, {1}', '{0} 또는 {1}'],
+        unit: ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    nb: {
+        conjunction: ['{0} og {1}', '{0}, {1}', '{0}, {1}', '{0} og {1}'],
+        disjunction: ['{0} eller {1}', '{0}, {1}', '{0}, {1}', '{0} eller {1}'],
+        'unit-short': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}']
+    },
+    nl: {
+        conjunction: ['{0} en {1}', '{0}, {1}', '{0}, {1}', '{0} en {1}'],
+        'conjunction-short': ['{0} & {1}', '{0}, {1}', '{0}, {1}', '{0} & {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} of {1}', '{0}, {1}', '{0}, {1}', '{0} of {1}'],
+        'unit-short': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}']
+    },
+    pl: {
+        conjunction: ['{0} i {1}', '{0}, {1}', '{0}, {1}', '{0} i {1}'],
+        disjunction: ['{0} lub {1}', '{0}, {1}', '{0}, {1}', '{0} lub {1}']
+    },
+    pt: {
+        conjunction: ['{0} e {1}', '{0}, {1}', '{0}, {1}', '{0} e {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} ou {1}', '{0}, {1}', '{0}, {1}', '{0} ou {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    ro: {
+        conjunction: ['{0} și {1}', '{0}, {1}', '{0}, {1}', '{0} și {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} sau {1}', '{0}, {1}', '{0}, {1}', '{0} sau {1}'],
+        unit: ['{0} și {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-short': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}']
+    },
+    ru: {
+        conjunction: ['{0} и {1}', '{0}, {1}', '{0}, {1}', '{0} и {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} или {1}', '{0}, {1}', '{0}, {1}', '{0} или {1}'],
+        unit: ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    sv: {
+        conjunction: ['{0} och {1}', '{0}, {1}', '{0}, {1}', '{0} och {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} eller {1}', '{0}, {1}', '{0}, {1}', '{0} eller {1}'],
+        unit: ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    th: {
+        conjunction: ['{0}และ{1}', '{0} {1}', '{0} {1}', '{0} และ{1}'],
+        disjunction: ['{0} หรือ {1}', '{0}, {1}', '{0}, {1}', '{0} หรือ {1}'],
+        'disjunction-short': ['{0}หรือ{1}', '{0}, {1}', '{0}, {1}', '{0} หรือ {1}'],
+        'disjunction-narrow': ['{0}หรือ{1}', '{0}, {1}', '{0}, {1}', '{0} หรือ {1}'],
+        unit: ['{0} และ {1}', '{0} {1}', '{0} {1}', '{0} และ {1}'],
+        'unit-short': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} และ {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    tr: {
+        conjunction: ['{0} ve {1}', '{0}, {1}', '{0}, {1}', '{0} ve {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} veya {1}', '{0}, {1}', '{0}, {1}', '{0} veya {1}'],
+        unit: ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    uk: {
+        conjunction: ['{0} і {1}', '{0}, {1}', '{0}, {1}', '{0} і {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} або {1}', '{0}, {1}', '{0}, {1}', '{0} або {1}']
+    },
+    vi: {
+        conjunction: ['{0} và {1}', '{0}, {1}', '{0}, {1}', '{0} và {1}'],
+        'conjunction-narrow': ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        disjunction: ['{0} hoặc {1}', '{0}, {1}', '{0}, {1}', '{0} hoặc {1}'],
+        unit: ['{0}, {1}', '{0}, {1}', '{0}, {1}', '{0}, {1}'],
+        'unit-narrow': ['{0} {1}', '{0} {1}', '{0} {1}', '{0} {1}']
+    },
+    zh: {
+        conjunction: ['{0}和{1}', '{0}、{1}', '{0}、{1}', '{0}和{1}'],
+        'conjunction-narrow': ['{0}、{1}', '{0}、{1}', '{0}、{1}', '{0}、{1}'],
+        disjunction: ['{0}或{1}', '{0}、{1}', '{0}、{1}', '{0}或{1}'],
+        unit: ['{0}{1}', '{0}{1}', '{0}{1}', '{0}{1}']
+    }
+};
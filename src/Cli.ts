@@ -0,0 +1,194 @@
+import { CatalogProvider, catalogTranslators } from './Catalog';
+import { coverageTable, translationCoverage } from './Coverage';
+import { languageTag } from './LanguageTag';
+import { MessageProvider, Messages } from './Translator';
+import { parseXliff, writeXliff, xliffDocument, xliffResources, xliffTranslationModule } from './Xliff';
+
+/**
+ * Provides access to the file system and module loading to [[runCli]].
+ */
+export interface CliEnvironment {
+    /**
+     * Reads a text file.
+     */
+    readFile(file: string): string;
+
+    /**
+     * Writes a text file, creating missing directories.
+     */
+    writeFile(file: string, content: string): void;
+
+    /**
+     * Loads a module (e.g. using `require()`) and provides its exports.
+     *
+     * @param module a path relative to the working directory or the name of a package.
+     */
+    loadModule(module: string): { [name: string]: {} | undefined };
+
+    /**
+     * Writes a message to the standard output.
+     */
+    print(text: string): void;
+
+    /**
+     * Writes a message to the standard error output.
+     */
+    printError(text: string): void;
+}
+
+/**
+ * A parsed command line of the form `command --option value file...`.
+ */
+export interface CommandLine {
+    readonly command?: string;
+    readonly options: { [name: string]: string };
+    readonly files: string[];
+}
+
+/**
+ * Parses a command line of the form `command --option value file...`.
+ */
+export function parseCommandLine(args: string[]): CommandLine {
+    const options: { [name: string]: string } = {};
+    const files: string[] = [];
+    for (let i = 1; i < args.length; i++) {
+        if (args[i].substr(0, 2) === '--') {
+            if (i + 1 >= args.length) {
+                throw `Missing value for option ${args[i]}`;
+            }
+            options[args[i].substr(2)] = args[++i];
+        } else {
+            files.push(args[i]);
+        }
+    }
+    return {command: args[0], options, files};
+}
+
+const usage = `Usage: typed-intl <command> [options] <files...>
+
+Commands:
+  export-xliff --target <languages> [--source <language>] [--out <dir>] [--require <module>] <modules...>
+      Exports the messages of all translators exported by the specified modules to one XLIFF 2.0 file per target
+      language (comma separated). --source is the language of the default messages (default: en).
+      Use --require ts-node/register to load TypeScript modules.
+  import-xliff [--format json|ts] [--out <dir>] <xliff files...>
+      Converts translated XLIFF 2.0 files to JSON resources to be used with loadResources() (default) or to
+      TypeScript modules to be used with partiallySupportingNested().
+  coverage [--format table|json] [--source <language>] [--require <module>] <modules...>
+      Reports for each language supported by the translators exported by the specified modules which keys are
+      translated, inherited from a parent language or fall back to the default messages.
+`;
+
+function isMessageProvider(value: {} | undefined): value is MessageProvider<Messages> {
+    const candidate = value as MessageProvider<Messages> | undefined;
+    return candidate !== undefined && candidate !== null &&
+        typeof candidate.inspect === 'function' && typeof candidate.messagesFor === 'function';
+}
+
+/**
+ * Loads the modules listed on the command line and provides all [[MessageProvider]]s they export.
+ */
+export function loadProviders(commandLine: CommandLine, environment: CliEnvironment): CatalogProvider[] {
+    if (commandLine.options.require) {
+        environment.loadModule(commandLine.options.require);
+    }
+    const providers: CatalogProvider[] = [];
+    commandLine.files.forEach(file => {
+        const exports = environment.loadModule(file);
+        Object.keys(exports).forEach(name => {
+            const provider = exports[name];
+            if (isMessageProvider(provider)) {
+                providers.push({id: `${file}#${name}`, provider});
+            }
+        });
+    });
+    return providers;
+}
+
+function outputFile(commandLine: CommandLine, name: string): string {
+    const dir = commandLine.options.out || '.';
+    return `${dir.replace(/\/$/, '')}/${name}`;
+}
+
+function exportXliff(commandLine: CommandLine, environment: CliEnvironment): Promise<void> {
+    if (!commandLine.options.target) {
+        throw 'Missing option --target';
+    }
+    const sourceLanguage = languageTag(commandLine.options.source || 'en');
+    const targetLanguages = commandLine.options.target.split(',').map(language => languageTag(language.trim()));
+    const providers = loadProviders(commandLine, environment);
+    const loading = providers.map(({provider}) => Promise.all(targetLanguages.map(l => provider.load(l))));
+    return Promise.all(loading).then(() => {
+        const translators = catalogTranslators(providers);
+        targetLanguages.forEach(targetLanguage => {
+            const document = xliffDocument(translators, sourceLanguage, targetLanguage, (id, message) =>
+                environment.printError(`Skipping ${id} ${message.key}: ${message.kind} messages have no text\n`));
+            const output = outputFile(commandLine, `messages.${targetLanguage.tag}.xlf`);
+            environment.writeFile(output, writeXliff(document));
+            environment.print(`Wrote ${output}\n`);
+        });
+    });
+}
+
+function fileName(id: string): string {
+    return id.replace(/^[./]+/, '').replace(/[^\w.-]+/g, '_');
+}
+
+function importXliff(commandLine: CommandLine, environment: CliEnvironment): void {
+    const format = commandLine.options.format || 'json';
+    if (format !== 'json' && format !== 'ts') {
+        throw `Unsupported format ${format}`;
+    }
+    commandLine.files.forEach(xliffFile => {
+        const document = parseXliff(environment.readFile(xliffFile));
+        document.files.forEach(file => {
+            const output = outputFile(commandLine, `${fileName(file.id)}.${document.targetLanguage}.${format}`);
+            environment.writeFile(output, format === 'json' ?
+                JSON.stringify(xliffResources(file), undefined, 2) + '\n' :
+                xliffTranslationModule(file));
+            environment.print(`Wrote ${output}\n`);
+        });
+    });
+}
+
+function coverage(commandLine: CommandLine, environment: CliEnvironment): Promise<void> {
+    const format = commandLine.options.format || 'table';
+    if (format !== 'table' && format !== 'json') {
+        throw `Unsupported format ${format}`;
+    }
+    const providers = loadProviders(commandLine, environment);
+    const loading = catalogTranslators(providers).map(({translator}) =>
+        Promise.all(translator.languages().map(language => translator.load(language))));
+    return Promise.all(loading).then(() => {
+        const result = translationCoverage(providers, languageTag(commandLine.options.source || 'en'));
+        environment.print(format === 'json' ? JSON.stringify(result, undefined, 2) + '\n' : coverageTable(result));
+    });
+}
+
+/**
+ * Runs the `typed-intl` command line tool.
+ *
+ * @param args the command line arguments (without the node executable and script).
+ * @param environment access to the file system and module loading.
+ * @returns a promise of the exit code.
+ */
+export function runCli(args: string[], environment: CliEnvironment): Promise<number> {
+    return Promise.resolve().then(() => {
+        const commandLine = parseCommandLine(args);
+        switch (commandLine.command) {
+            case 'export-xliff':
+                return exportXliff(commandLine, environment).then(() => 0);
+            case 'import-xliff':
+                importXliff(commandLine, environment);
+                return 0;
+            case 'coverage':
+                return coverage(commandLine, environment).then(() => 0);
+            default:
+                environment.printError(usage);
+                return 1;
+        }
+    }).catch(error => {
+        environment.printError(`${error.message || error}\n`);
+        return 1;
+    });
+}
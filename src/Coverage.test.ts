@@ -0,0 +1,102 @@
+import {
+    CliEnvironment,
+    coverageTable,
+    languageCoverage,
+    languageTag,
+    runCli,
+    translate,
+    translationCoverage
+} from '.';
+
+const base = translate({ok: 'OK', cancel: 'Cancel'})
+    .supporting('de', {ok: 'OK', cancel: 'Abbrechen'});
+
+const translator = translate({
+    welcome: 'Welcome',
+    bye: 'Bye',
+    task: {
+        add: 'Add task',
+        remove: 'Remove task'
+    }
+}).partiallySupporting('de', {
+    welcome: 'Willkommen',
+    task: {
+        add: 'Aufgabe hinzufügen'
+    }
+}).partiallySupporting('de-CH-1996', {
+    welcome: 'Grüezi'
+}).partiallySupporting('fr', {});
+
+describe('languageCoverage', () => {
+    it('must distinguish supplied, inherited and default keys', () => {
+        expect(languageCoverage(translator, languageTag('de-CH-1996'))).toEqual({
+            language: 'de-CH-1996',
+            supplied: ['welcome'],
+            inherited: [{key: 'task.add', from: 'de'}],
+            fallback: ['bye', 'task.remove'],
+            total: 4,
+            completion: 50
+        });
+        expect(languageCoverage(translator, languageTag('fr')).completion).toBe(0);
+    });
+
+    it('must consider a translator without messages complete', () => {
+        expect(languageCoverage(translate({}), languageTag('de')).completion).toBe(100);
+    });
+});
+
+describe('translationCoverage', () => {
+    it('must report the coverage of all translators of extending chains', () => {
+        const coverage = translationCoverage([{id: 'msg', provider: translator.extending(base)}]);
+        expect(coverage.map(c => c.id)).toEqual(['msg', 'msg/base']);
+        expect(coverage[0].languages.map(l => l.language)).toEqual(['de', 'de-CH-1996', 'fr']);
+        expect(coverage[1].languages.map(l => l.completion)).toEqual([100]);
+    });
+});
+
+describe('coverageTable', () => {
+    it('must list the languages of each translator', () => {
+        expect(coverageTable([
+            {id: 'msg', languages: [languageCoverage(translator, languageTag('de-CH-1996'))]},
+            {id: 'empty', languages: []}
+        ])).toBe(
+            'msg\n' +
+            '  Language    Supplied  Inherited  Default  Completion\n' +
+            '  de-CH-1996         1          1        2       50.0%\n' +
+            '\n' +
+            'empty\n' +
+            '  no translations\n');
+    });
+});
+
+describe('runCli coverage', () => {
+    const output: string[] = [];
+    const environment: CliEnvironment = {
+        readFile: () => '',
+        writeFile: () => undefined,
+        loadModule: () => ({default: translate({hello: 'Hello'}).supportingAsync('de', () =>
+            Promise.resolve({hello: 'Hallo'}))}),
+        print: text => output.push(text),
+        printError: text => output.push(text)
+    };
+
+    beforeEach(() => output.length = 0);
+
+    it('must load the translations and print the coverage', () =>
+        runCli(['coverage', 'messages'], environment).then(exitCode => {
+            expect(exitCode).toBe(0);
+            expect(output[0]).toContain('  de               1          0        0      100.0%\n');
+        }));
+
+    it('must print the coverage as JSON', () =>
+        runCli(['coverage', '--format', 'json', 'messages'], environment).then(exitCode => {
+            expect(exitCode).toBe(0);
+            expect(JSON.parse(output[0])[0].languages[0].supplied).toEqual(['hello']);
+        }));
+
+    it('must reject unknown formats', () =>
+        runCli(['coverage', '--format', 'csv', 'messages'], environment).then(exitCode => {
+            expect(exitCode).toBe(1);
+            expect(output).toEqual(['Unsupported format csv\n']);
+        }));
+});
@@ -0,0 +1,143 @@
+import { CatalogProvider, catalogMessages, catalogTranslators } from './Catalog';
+import { LanguageTag, languageTag } from './LanguageTag';
+import { Messages, Translator } from './Translator';
+
+/**
+ * A key whose message is inherited from the translation of a parent language (e.g. from `de` for `de-CH`).
+ */
+export interface InheritedKey {
+    readonly key: string;
+
+    /**
+     * The language tag of the translation providing the message.
+     */
+    readonly from: string;
+}
+
+/**
+ * Describes how complete the translation of a single language is.
+ *
+ * Keys of nested namespaces are separated by dots (e.g. `task.add`).
+ */
+export interface LanguageCoverage {
+    readonly language: string;
+
+    /**
+     * The keys translated by the language's own translation.
+     */
+    readonly supplied: string[];
+
+    /**
+     * The keys inherited from the translation of a parent language.
+     */
+    readonly inherited: InheritedKey[];
+
+    /**
+     * The keys falling back to the default messages.
+     */
+    readonly fallback: string[];
+
+    /**
+     * The number of keys of the default messages.
+     */
+    readonly total: number;
+
+    /**
+     * The percentage (`0` to `100`) of the keys which are either supplied or inherited.
+     */
+    readonly completion: number;
+}
+
+/**
+ * The [[LanguageCoverage]]s of all languages supported by a [[Translator]].
+ */
+export interface TranslatorCoverage {
+    /**
+     * Identifies the translator (see [[CatalogTranslator.id]]).
+     */
+    readonly id: string;
+
+    readonly languages: LanguageCoverage[];
+}
+
+/**
+ * Determines how complete the translation of a language supported by a [[Translator]] is. Translations which are
+ * loaded asynchronously must have been loaded before.
+ *
+ * @param translator the translator to examine.
+ * @param language the language to examine.
+ * @param sourceLanguage the language used to determine the keys of the default messages. Defaults to `en`.
+ * @returns the coverage of the language.
+ */
+export function languageCoverage<M extends Messages>(translator: Translator<M>, language: LanguageTag,
+                                                     sourceLanguage: LanguageTag = languageTag('en')
+): LanguageCoverage {
+    const supported = translator.languages();
+    const translatedKeys = (lang: LanguageTag) => supported.indexOf(lang) < 0 ? [] :
+        catalogMessages(translator.translationFor(lang) || {}).map(message => message.key);
+    const ownKeys = translatedKeys(language);
+    const parentKeys: Map<string, string> = new Map();
+    for (let parent = language.parent(); parent; parent = parent.parent()) {
+        const from = parent.tag;
+        translatedKeys(parent).filter(key => !parentKeys.has(key)).forEach(key => parentKeys.set(key, from));
+    }
+    const keys = catalogMessages(translator.defaultMessagesFor(sourceLanguage)).map(message => message.key);
+    const supplied = keys.filter(key => ownKeys.indexOf(key) >= 0);
+    const inherited = keys
+        .filter(key => ownKeys.indexOf(key) < 0 && parentKeys.has(key))
+        .map(key => ({key, from: parentKeys.get(key)!}));
+    const fallback = keys.filter(key => ownKeys.indexOf(key) < 0 && !parentKeys.has(key));
+    return {
+        language: language.tag,
+        supplied,
+        inherited,
+        fallback,
+        total: keys.length,
+        completion: keys.length > 0 ? (supplied.length + inherited.length) * 100 / keys.length : 100
+    };
+}
+
+/**
+ * Determines the coverage of all languages supported by the translators the specified providers consist of,
+ * following their [[Translator.extending]] chains like [[catalogTranslators]]. Translations which are loaded
+ * asynchronously must have been loaded before.
+ *
+ * @param providers the providers to examine.
+ * @param sourceLanguage the language used to determine the keys of the default messages. Defaults to `en`.
+ * @returns the coverage of each translator.
+ */
+export function translationCoverage(providers: CatalogProvider[],
+                                    sourceLanguage: LanguageTag = languageTag('en')): TranslatorCoverage[] {
+    return catalogTranslators(providers).map(({id, translator}) => ({
+        id,
+        languages: translator.languages().map(language => languageCoverage(translator, language, sourceLanguage))
+    }));
+}
+
+function pad(text: string, width: number, alignRight: boolean): string {
+    const padding = width > text.length ? new Array(width - text.length + 1).join(' ') : '';
+    return alignRight ? padding + text : text + padding;
+}
+
+/**
+ * Formats [[TranslatorCoverage]]s as human readable table with one row per language.
+ *
+ * @param coverage the coverage to format.
+ * @returns the table.
+ */
+export function coverageTable(coverage: TranslatorCoverage[]): string {
+    const header = ['Language', 'Supplied', 'Inherited', 'Default', 'Completion'];
+    return coverage.map(({id, languages}) => {
+        const rows = [header].concat(languages.map(l => [
+            l.language,
+            `${l.supplied.length}`,
+            `${l.inherited.length}`,
+            `${l.fallback.length}`,
+            `${l.completion.toFixed(1)}%`
+        ]));
+        const widths = header.map((h, column) => Math.max(...rows.map(row => row[column].length)));
+        return `${id}\n` + (languages.length === 0 ? '  no translations\n' : rows
+            .map(row => '  ' + row.map((cell, column) => pad(cell, widths[column], column > 0)).join('  ') + '\n')
+            .join(''));
+    }).join('\n');
+}
@@ -0,0 +1,111 @@
+import {
+    diagnosticsHandler,
+    DiagnosticsEvent,
+    languageTag,
+    setDiagnosticsHandler,
+    translate
+} from '.';
+
+const de = languageTag('de');
+const deCh = languageTag('de-CH');
+
+const translator = translate({
+    welcome: 'Welcome',
+    ok: 'OK',
+    task: {
+        add: 'Add task',
+        remove: 'Remove task'
+    }
+}).partiallySupporting(de, {
+    welcome: 'Willkommen',
+    task: {
+        add: 'Aufgabe hinzufügen'
+    }
+}).partiallySupporting(deCh, {
+    welcome: 'Grüezi'
+});
+
+function describeEvent(event: DiagnosticsEvent): string {
+    return event.type === 'fallback' ?
+        `${event.requestedLanguage.tag} ${event.translationLanguage.tag} ${event.key} ${event.step}` +
+            (event.suppliedBy ? ` ${event.suppliedBy.tag}` : '') :
+        `${event.requestedLanguage.tag} no match in ${event.availableLanguages.map(l => l.tag).join(',')}`;
+}
+
+describe('diagnostics', () => {
+    const events: string[] = [];
+    const handler = (event: DiagnosticsEvent) => events.push(describeEvent(event));
+
+    beforeEach(() => events.length = 0);
+    afterEach(() => setDiagnosticsHandler(undefined));
+
+    it('must report keys supplied by parent translations and default messages', () => {
+        translator.withDiagnostics(handler).messagesFor(languageTag('de-CH-1996'));
+        expect(events).toEqual([
+            'de-CH-1996 de-CH ok default',
+            'de-CH-1996 de-CH task.add parent de',
+            'de-CH-1996 de-CH task.remove default'
+        ]);
+    });
+
+    it('must report requests without matching translation', () => {
+        translator.withDiagnostics(handler).messagesFor(languageTag('fr'));
+        expect(events).toEqual(['fr no match in de,de-CH']);
+    });
+
+    it('must not report requests for the language of the default messages', () => {
+        translator.withDiagnostics(handler).messagesFor(languageTag('en-US'));
+        translator.withDiagnostics(handler, 'fr').messagesFor(languageTag('fr-CA'));
+        translator.withDiagnostics(handler, 'fr').messagesFor(languageTag('en'));
+        expect(events).toEqual(['en no match in de,de-CH']);
+    });
+
+    it('must provide the messages even if the handler fails', () => {
+        const failing = translator.withDiagnostics(event => {
+            events.push(describeEvent(event));
+            throw 'failed';
+        });
+        expect(failing.messagesFor(deCh).task.remove).toBe('Remove task');
+        expect(failing.messagesFor(languageTag('fr')).welcome).toBe('Welcome');
+        expect(events).toEqual([
+            'de-CH de-CH ok default',
+            'de-CH de-CH task.add parent de',
+            'de-CH de-CH task.remove default',
+            'fr no match in de,de-CH'
+        ]);
+    });
+
+    it('must build each translation only once', () => {
+        let builds = 0;
+        translate({welcome: 'Welcome', ok: 'OK'})
+            .partiallySupporting('de', () => {
+                builds++;
+                return {welcome: 'Willkommen'};
+            })
+            .withDiagnostics(handler)
+            .messagesFor(de);
+        expect(builds).toBe(1);
+        expect(events).toEqual(['de de ok default']);
+    });
+
+    it('must use the global handler for translators without handler', () => {
+        setDiagnosticsHandler(handler);
+        expect(diagnosticsHandler()).toBe(handler);
+        const msg = translator.caching({maxSize: 2}).messagesFor(de);
+        expect(msg.ok).toBe('OK');
+        expect(events).toEqual(['de de ok default', 'de de task.remove default']);
+    });
+
+    it('must prefer the handler of the translator', () => {
+        const ownEvents: DiagnosticsEvent[] = [];
+        setDiagnosticsHandler(handler);
+        translator.withDiagnostics(event => ownEvents.push(event)).partiallySupporting('fr', {}).messagesFor(deCh);
+        expect(events).toEqual([]);
+        expect(ownEvents.length).toBe(3);
+    });
+
+    it('must report nothing without handler', () => {
+        expect(translator.messagesFor(languageTag('de-AT')).welcome).toBe('Willkommen');
+        expect(events).toEqual([]);
+    });
+});
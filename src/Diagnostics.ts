@@ -0,0 +1,94 @@
+import { LanguageTag } from './LanguageTag';
+
+/**
+ * Reported if a message of the requested language is not provided by the best matching translation.
+ */
+export interface FallbackEvent {
+    readonly type: 'fallback';
+
+    /**
+     * The language the messages have been requested for.
+     */
+    readonly requestedLanguage: LanguageTag;
+
+    /**
+     * The best matching translation the requested language has been resolved to (e.g. `de` for `de-AT`).
+     */
+    readonly translationLanguage: LanguageTag;
+
+    /**
+     * The key of the message. Keys of nested namespaces are separated by dots (e.g. `task.add`).
+     */
+    readonly key: string;
+
+    /**
+     * Where the message has been taken from instead: the translation of a `parent` language or the `default`
+     * messages.
+     */
+    readonly step: 'parent' | 'default';
+
+    /**
+     * The language of the translation supplying the message if the `step` is `parent`.
+     */
+    readonly suppliedBy?: LanguageTag;
+}
+
+/**
+ * Reported if none of the translations matches the requested language, so that the default messages are used.
+ * Requests for the language of the default messages (see [[Translator.withDiagnostics]]) are not reported.
+ */
+export interface NoMatchingTranslationEvent {
+    readonly type: 'noMatchingTranslation';
+
+    /**
+     * The language the messages have been requested for.
+     */
+    readonly requestedLanguage: LanguageTag;
+
+    /**
+     * The languages translations are available for.
+     */
+    readonly availableLanguages: LanguageTag[];
+}
+
+/**
+ * The events reported to a [[DiagnosticsHandler]].
+ */
+export type DiagnosticsEvent = FallbackEvent | NoMatchingTranslationEvent;
+
+/**
+ * Receives [[DiagnosticsEvent]]s, e.g. to flag untranslated messages in test builds or to send them to a telemetry
+ * service.
+ *
+ * Events are reported when a [[Translator]] builds the messages of a language, which happens once for each language
+ * as long as the messages are kept in the translator's cache. Exceptions thrown by the handler are ignored, so that
+ * diagnostics never break the messages.
+ */
+export type DiagnosticsHandler = (event: DiagnosticsEvent) => void;
+
+let _diagnosticsHandler: DiagnosticsHandler | undefined = undefined;
+
+/**
+ * The [[DiagnosticsHandler]] used by all translators without their own handler (see [[Translator.withDiagnostics]]).
+ */
+export function diagnosticsHandler(): DiagnosticsHandler | undefined {
+    return _diagnosticsHandler;
+}
+
+/**
+ * Sets the [[DiagnosticsHandler]] used by all translators without their own handler.
+ *
+ * **Example:**
+ * ```typescript
+ * setDiagnosticsHandler(event => {
+ *     if (event.type === 'fallback' && event.step === 'default') {
+ *         console.warn(`Missing ${event.requestedLanguage.tag} translation of ${event.key}`);
+ *     }
+ * });
+ * ```
+ *
+ * @param handler the handler or `undefined` to disable diagnostics.
+ */
+export function setDiagnosticsHandler(handler: DiagnosticsHandler | undefined): void {
+    _diagnosticsHandler = handler;
+}
@@ -0,0 +1,70 @@
+import { languageNames, languageTag, translate } from '.';
+
+const en = languageTag('en');
+const de = languageTag('de');
+
+interface IntlWithDisplayNames {
+    DisplayNames?: {};
+}
+
+describe('displayName', () => {
+    it('must provide the name in the language itself', () => {
+        expect(languageTag('de-CH').displayName()).toBe('Deutsch (Schweiz)');
+        expect(languageTag('zh-Hant-TW').displayName()).toBe('中文（繁體，台灣）');
+        expect(languageTag('es-419').displayName()).toBe('español (Latinoamérica)');
+    });
+
+    it('must provide the name in another language', () => {
+        expect(languageTag('de-CH').displayName(en)).toBe('German (Switzerland)');
+        expect(languageTag('sr-Latn-ME').displayName(de)).toBe('Serbisch (Lateinisch, Montenegro)');
+        expect(languageTag('en-US-u-hc-h23').displayName(de)).toBe('Englisch (Vereinigte Staaten)');
+    });
+
+    it('must name variants', () => {
+        expect(languageTag('de-CH-1901').displayName(en)).toBe('German (Switzerland, Traditional German orthography)');
+        expect(languageTag('sl-rozaj-biske').displayName(en)).toBe('Slovenian (Resian, San Giorgio/Bila dialect)');
+        expect(languageTag('sl-rozaj-biske').displayName(languageTag('zh'))).toBe('斯洛文尼亚语（雷西亚文, 圣乔治/比拉方言）');
+    });
+
+    it('must name irregular tags by their tag', () => {
+        expect(languageTag('i-klingon').displayName(en)).toBe('i-klingon');
+        expect(languageTag('x-private').displayName()).toBe('x-private');
+    });
+
+    describe('without Intl.DisplayNames', () => {
+        const intl = Intl as {} as IntlWithDisplayNames;
+        const displayNames = intl.DisplayNames;
+
+        beforeEach(() => delete intl.DisplayNames);
+        afterEach(() => intl.DisplayNames = displayNames);
+
+        it('must use the bundled names', () => {
+            expect(languageTag('de-CH').displayName(en)).toBe('German (Switzerland)');
+            expect(languageTag('de-CH').displayName()).toBe('Deutsch (Switzerland)');
+            expect(languageTag('zh-Hant-TW').displayName(de)).toBe('Chinese (Traditional, Taiwan)');
+            expect(languageTag('de-CH-1996').displayName(en))
+                .toBe('German (Switzerland, German orthography of 1996)');
+            expect(languageTag('tlh-QQ-abcde').displayName(en)).toBe('tlh (QQ, ABCDE)');
+            expect(languageTag('en-YU').displayName(en)).toBe('English (YU)');
+        });
+    });
+});
+
+describe('languageNames', () => {
+    const translator = translate({ok: 'OK'}).supporting('de-CH', {ok: 'OK'}).supporting('fr', {ok: 'D\'accord'});
+
+    it('must list the languages with their native names', () => {
+        expect(languageNames(translator, en).map(name => [name.language.tag, name.nativeName, name.displayName]))
+            .toEqual([
+                ['en', 'English', 'English'],
+                ['de-CH', 'Deutsch (Schweiz)', 'German (Switzerland)'],
+                ['fr', 'français', 'French']
+            ]);
+    });
+
+    it('must name the languages in the specified language', () => {
+        expect(languageNames(translator, undefined, de).map(name => name.displayName))
+            .toEqual(['Deutsch (Schweiz)', 'Französisch']);
+        expect(languageNames(translator).map(name => name.displayName)).toEqual(['Deutsch (Schweiz)', 'français']);
+    });
+});
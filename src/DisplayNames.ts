@@ -0,0 +1,229 @@
+import { LanguageTag } from './LanguageTag';
+import { Translator } from './Translator';
+
+/**
+ * The display names of a language for a language switcher, as provided by [[languageNames]].
+ */
+export interface LanguageName {
+    /**
+     * The language.
+     */
+    readonly language: LanguageTag;
+
+    /**
+     * The name of the language in the language itself (e.g. `Deutsch (Schweiz)` for `de-CH`).
+     */
+    readonly nativeName: string;
+
+    /**
+     * The name of the language in the language of the user (e.g. `German (Switzerland)` for `de-CH` in English).
+     */
+    readonly displayName: string;
+}
+
+/*
+ * The fallback names used if `Intl.DisplayNames` isn't available, taken from the CLDR. They cover the languages and
+ * scripts of the bundled likely subtags in English and their native language names only.
+ */
+
+const englishLanguageNames: { [code: string]: string } = {
+    'af': 'Afrikaans', 'am': 'Amharic', 'ar': 'Arabic', 'as': 'Assamese', 'az': 'Azerbaijani', 'be': 'Belarusian',
+    'bg': 'Bulgarian', 'bn': 'Bangla', 'bs': 'Bosnian', 'ca': 'Catalan', 'cs': 'Czech', 'cy': 'Welsh', 'da': 'Danish',
+    'de': 'German', 'el': 'Greek', 'en': 'English', 'es': 'Spanish', 'et': 'Estonian', 'eu': 'Basque', 'fa': 'Persian',
+    'fi': 'Finnish', 'fil': 'Filipino', 'fr': 'French', 'ga': 'Irish', 'gl': 'Galician', 'gsw': 'Swiss German',
+    'gu': 'Gujarati', 'ha': 'Hausa', 'he': 'Hebrew', 'hi': 'Hindi', 'hr': 'Croatian', 'hu': 'Hungarian',
+    'hy': 'Armenian', 'id': 'Indonesian', 'ig': 'Igbo', 'is': 'Icelandic', 'it': 'Italian', 'ja': 'Japanese',
+    'jv': 'Javanese', 'ka': 'Georgian', 'kk': 'Kazakh', 'km': 'Khmer', 'kn': 'Kannada', 'ko': 'Korean', 'ky': 'Kyrgyz',
+    'lb': 'Luxembourgish', 'lo': 'Lao', 'lt': 'Lithuanian', 'lv': 'Latvian', 'mk': 'Macedonian', 'ml': 'Malayalam',
+    'mn': 'Mongolian', 'mr': 'Marathi', 'ms': 'Malay', 'mt': 'Maltese', 'my': 'Burmese', 'nb': 'Norwegian Bokmål',
+    'ne': 'Nepali', 'nl': 'Dutch', 'nn': 'Norwegian Nynorsk', 'no': 'Norwegian', 'or': 'Odia', 'pa': 'Punjabi',
+    'pl': 'Polish', 'ps': 'Pashto', 'pt': 'Portuguese', 'ro': 'Romanian', 'ru': 'Russian', 'rw': 'Kinyarwanda',
+    'sd': 'Sindhi', 'si': 'Sinhala', 'sk': 'Slovak', 'sl': 'Slovenian', 'so': 'Somali', 'sq': 'Albanian',
+    'sr': 'Serbian', 'sv': 'Swedish', 'sw': 'Swahili', 'ta': 'Tamil', 'te': 'Telugu', 'tg': 'Tajik', 'th': 'Thai',
+    'tk': 'Turkmen', 'tr': 'Turkish', 'uk': 'Ukrainian', 'ur': 'Urdu', 'uz': 'Uzbek', 'vi': 'Vietnamese',
+    'yo': 'Yoruba', 'yue': 'Cantonese', 'zh': 'Chinese', 'zu': 'Zulu'
+};
+
+const nativeLanguageNames: { [code: string]: string } = {
+    'af': 'Afrikaans', 'am': 'አማርኛ', 'ar': 'العربية', 'as': 'অসমীয়া', 'az': 'azərbaycan', 'be': 'беларуская',
+    'bg': 'български', 'bn': 'বাংলা', 'bs': 'bosanski', 'ca': 'català', 'cs': 'čeština', 'cy': 'Cymraeg', 'da': 'dansk',
+    'de': 'Deutsch', 'el': 'Ελληνικά', 'en': 'English', 'es': 'español', 'et': 'eesti', 'eu': 'euskara', 'fa': 'فارسی',
+    'fi': 'suomi', 'fil': 'Filipino', 'fr': 'français', 'ga': 'Gaeilge', 'gl': 'galego', 'gsw': 'Schwiizertüütsch',
+    'gu': 'ગુજરાતી', 'ha': 'Hausa', 'he': 'עברית', 'hi': 'हिन्दी', 'hr': 'hrvatski', 'hu': 'magyar', 'hy': 'հայերեն',
+    'id': 'Indonesia', 'ig': 'Igbo', 'is': 'íslenska', 'it': 'italiano', 'ja': '日本語', 'jv': 'Jawa', 'ka': 'ქართული',
+    'kk': 'қазақ тілі', 'km': 'ខ្មែរ', 'kn': 'ಕನ್ನಡ', 'ko': '한국어', 'ky': 'кыргызча', 'lb': 'Lëtzebuergesch',
+    'lo': 'ລາວ', 'lt': 'lietuvių', 'lv': 'latviešu', 'mk': 'македонски', 'ml': 'മലയാളം', 'mn': 'монгол', 'mr': 'मराठी',
+    'ms': 'Melayu', 'mt': 'Malti', 'my': 'မြန်မာ', 'nb': 'norsk bokmål', 'ne': 'नेपाली', 'nl': 'Nederlands',
+    'nn': 'norsk nynorsk', 'no': 'norsk', 'or': 'ଓଡ଼ିଆ', 'pa': 'ਪੰਜਾਬੀ', 'pl': 'polski', 'ps': 'پښتو',
+    'pt': 'português', 'ro': 'română', 'ru': 'русский', 'rw': 'Ikinyarwanda', 'sd': 'سنڌي', 'si': 'සිංහල',
+    'sk': 'slovenčina', 'sl': 'slovenščina', 'so': 'Soomaali', 'sq': 'shqip', 'sr': 'српски', 'sv': 'svenska',
+    'sw': 'Kiswahili', 'ta': 'தமிழ்', 'te': 'తెలుగు', 'tg': 'тоҷикӣ', 'th': 'ไทย', 'tk': 'türkmen dili', 'tr': 'Türkçe',
+    'uk': 'українська', 'ur': 'اردو', 'uz': 'o‘zbek', 'vi': 'Tiếng Việt', 'yo': 'Èdè Yorùbá', 'yue': '粵語', 'zh': '中文',
+    'zu': 'isiZulu'
+};
+
+const englishScriptNames: { [code: string]: string } = {
+    'Adlm': 'Adlam', 'Arab': 'Arabic', 'Armn': 'Armenian', 'Beng': 'Bangla', 'Cyrl': 'Cyrillic', 'Deva': 'Devanagari',
+    'Ethi': 'Ethiopic', 'Geor': 'Georgian', 'Grek': 'Greek', 'Gujr': 'Gujarati', 'Guru': 'Gurmukhi',
+    'Hans': 'Simplified', 'Hant': 'Traditional', 'Hebr': 'Hebrew', 'Jpan': 'Japanese', 'Khmr': 'Khmer',
+    'Knda': 'Kannada', 'Kore': 'Korean', 'Laoo': 'Lao', 'Latn': 'Latin', 'Mlym': 'Malayalam', 'Mong': 'Mongolian',
+    'Mymr': 'Myanmar', 'Olck': 'Ol Chiki', 'Orya': 'Odia', 'Sinh': 'Sinhala', 'Taml': 'Tamil', 'Telu': 'Telugu',
+    'Tfng': 'Tifinagh', 'Thaa': 'Thaana', 'Thai': 'Thai'
+};
+
+const englishRegionNames: { [code: string]: string } = {
+    '150': 'Europe', '419': 'Latin America', '001': 'world', 'AC': 'Ascension Island', 'AD': 'Andorra',
+    'AE': 'United Arab Emirates', 'AF': 'Afghanistan', 'AG': 'Antigua & Barbuda', 'AI': 'Anguilla', 'AL': 'Albania',
+    'AM': 'Armenia', 'AO': 'Angola', 'AQ': 'Antarctica', 'AR': 'Argentina', 'AS': 'American Samoa',
+    'AT': 'Austria', 'AU': 'Australia', 'AW': 'Aruba', 'AX': 'Åland Islands', 'AZ': 'Azerbaijan',
+    'BA': 'Bosnia & Herzegovina', 'BB': 'Barbados', 'BD': 'Bangladesh', 'BE': 'Belgium', 'BF': 'Burkina Faso',
+    'BG': 'Bulgaria', 'BH': 'Bahrain', 'BI': 'Burundi', 'BJ': 'Benin', 'BL': 'St. Barthélemy', 'BM': 'Bermuda',
+    'BN': 'Brunei', 'BO': 'Bolivia', 'BQ': 'Caribbean Netherlands', 'BR': 'Brazil', 'BS': 'Bahamas', 'BT': 'Bhutan',
+    'BU': 'Myanmar (Burma)', 'BV': 'Bouvet Island', 'BW': 'Botswana', 'BY': 'Belarus', 'BZ': 'Belize', 'CA': 'Canada',
+    'CC': 'Cocos (Keeling) Islands', 'CD': 'Congo - Kinshasa', 'CF': 'Central African Republic',
+    'CG': 'Congo - Brazzaville', 'CH': 'Switzerland', 'CI': 'Côte d’Ivoire', 'CK': 'Cook Islands', 'CL': 'Chile',
+    'CM': 'Cameroon', 'CN': 'China', 'CO': 'Colombia', 'CP': 'Clipperton Island', 'CQ': 'Sark', 'CR': 'Costa Rica',
+    'CS': 'Serbia', 'CU': 'Cuba', 'CV': 'Cape Verde', 'CW': 'Curaçao', 'CX': 'Christmas Island', 'CY': 'Cyprus',
+    'CZ': 'Czechia', 'DD': 'Germany', 'DE': 'Germany', 'DG': 'Diego Garcia', 'DJ': 'Djibouti', 'DK': 'Denmark',
+    'DM': 'Dominica', 'DO': 'Dominican Republic', 'DY': 'Benin', 'DZ': 'Algeria', 'EA': 'Ceuta & Melilla',
+    'EC': 'Ecuador', 'EE': 'Estonia', 'EG': 'Egypt', 'EH': 'Western Sahara', 'ER': 'Eritrea', 'ES': 'Spain',
+    'ET': 'Ethiopia', 'FI': 'Finland', 'FJ': 'Fiji', 'FK': 'Falkland Islands', 'FM': 'Micronesia',
+    'FO': 'Faroe Islands', 'FR': 'France', 'FX': 'France', 'GA': 'Gabon', 'GB': 'United Kingdom', 'GD': 'Grenada',
+    'GE': 'Georgia', 'GF': 'French Guiana', 'GG': 'Guernsey', 'GH': 'Ghana', 'GI': 'Gibraltar', 'GL': 'Greenland',
+    'GM': 'Gambia', 'GN': 'Guinea', 'GP': 'Guadeloupe', 'GQ': 'Equatorial Guinea', 'GR': 'Greece',
+    'GS': 'South Georgia & South Sandwich Islands', 'GT': 'Guatemala', 'GU': 'Guam', 'GW': 'Guinea-Bissau',
+    'GY': 'Guyana', 'HK': 'Hong Kong SAR China', 'HM': 'Heard & McDonald Islands', 'HN': 'Honduras', 'HR': 'Croatia',
+    'HT': 'Haiti', 'HU': 'Hungary', 'HV': 'Burkina Faso', 'IC': 'Canary Islands', 'ID': 'Indonesia', 'IE': 'Ireland',
+    'IL': 'Israel', 'IM': 'Isle of Man', 'IN': 'India', 'IO': 'British Indian Ocean Territory', 'IQ': 'Iraq',
+    'IR': 'Iran', 'IS': 'Iceland', 'IT': 'Italy', 'JE': 'Jersey', 'JM': 'Jamaica', 'JO': 'Jordan', 'JP': 'Japan',
+    'KE': 'Kenya', 'KG': 'Kyrgyzstan', 'KH': 'Cambodia', 'KI': 'Kiribati', 'KM': 'Comoros', 'KN': 'St. Kitts & Nevis',
+    'KP': 'North Korea', 'KR': 'South Korea', 'KW': 'Kuwait', 'KY': 'Cayman Islands', 'KZ': 'Kazakhstan', 'LA': 'Laos',
+    'LB': 'Lebanon', 'LC': 'St. Lucia', 'LI': 'Liechtenstein', 'LK': 'Sri Lanka', 'LR': 'Liberia', 'LS': 'Lesotho',
+    'LT': 'Lithuania', 'LU': 'Luxembourg', 'LV': 'Latvia', 'LY': 'Libya', 'MA': 'Morocco', 'MC': 'Monaco',
+    'MD': 'Moldova', 'ME': 'Montenegro', 'MF': 'St. Martin', 'MG': 'Madagascar', 'MH': 'Marshall Islands',
+    'MK': 'North Macedonia', 'ML': 'Mali', 'MM': 'Myanmar (Burma)', 'MN': 'Mongolia', 'MO': 'Macao SAR China',
+    'MP': 'Northern Mariana Islands', 'MQ': 'Martinique', 'MR': 'Mauritania', 'MS': 'Montserrat', 'MT': 'Malta',
+    'MU': 'Mauritius', 'MV': 'Maldives', 'MW': 'Malawi', 'MX': 'Mexico', 'MY': 'Malaysia', 'MZ': 'Mozambique',
+    'NA': 'Namibia', 'NC': 'New Caledonia', 'NE': 'Niger', 'NF': 'Norfolk Island', 'NG': 'Nigeria', 'NH': 'Vanuatu',
+    'NI': 'Nicaragua', 'NL': 'Netherlands', 'NO': 'Norway', 'NP': 'Nepal', 'NR': 'Nauru', 'NU': 'Niue',
+    'NZ': 'New Zealand', 'OM': 'Oman', 'PA': 'Panama', 'PE': 'Peru', 'PF': 'French Polynesia', 'PG': 'Papua New Guinea',
+    'PH': 'Philippines', 'PK': 'Pakistan', 'PL': 'Poland', 'PM': 'St. Pierre & Miquelon', 'PN': 'Pitcairn Islands',
+    'PR': 'Puerto Rico', 'PS': 'Palestinian Territories', 'PT': 'Portugal', 'PW': 'Palau', 'PY': 'Paraguay',
+    'QA': 'Qatar', 'RE': 'Réunion', 'RH': 'Zimbabwe', 'RO': 'Romania', 'RS': 'Serbia', 'RU': 'Russia', 'RW': 'Rwanda',
+    'SA': 'Saudi Arabia', 'SB': 'Solomon Islands', 'SC': 'Seychelles', 'SD': 'Sudan', 'SE': 'Sweden', 'SG': 'Singapore',
+    'SH': 'St. Helena', 'SI': 'Slovenia', 'SJ': 'Svalbard & Jan Mayen', 'SK': 'Slovakia', 'SL': 'Sierra Leone',
+    'SM': 'San Marino', 'SN': 'Senegal', 'SO': 'Somalia', 'SR': 'Suriname', 'SS': 'South Sudan',
+    'ST': 'São Tomé & Príncipe', 'SU': 'Russia', 'SV': 'El Salvador', 'SX': 'Sint Maarten', 'SY': 'Syria',
+    'SZ': 'Eswatini', 'TA': 'Tristan da Cunha', 'TC': 'Turks & Caicos Islands', 'TD': 'Chad',
+    'TF': 'French Southern Territories', 'TG': 'Togo', 'TH': 'Thailand', 'TJ': 'Tajikistan', 'TK': 'Tokelau',
+    'TL': 'Timor-Leste', 'TM': 'Turkmenistan', 'TN': 'Tunisia', 'TO': 'Tonga', 'TP': 'Timor-Leste', 'TR': 'Türkiye',
+    'TT': 'Trinidad & Tobago', 'TV': 'Tuvalu', 'TW': 'Taiwan', 'TZ': 'Tanzania', 'UA': 'Ukraine', 'UG': 'Uganda',
+    'UM': 'U.S. Outlying Islands', 'US': 'United States', 'UY': 'Uruguay', 'UZ': 'Uzbekistan',
+    'VA': 'Vatican City', 'VC': 'St. Vincent & Grenadines', 'VE': 'Venezuela',
+    'VG': 'British Virgin Islands', 'VI': 'U.S. Virgin Islands', 'VN': 'Vietnam', 'VU': 'Vanuatu',
+    'WF': 'Wallis & Futuna', 'WS': 'Samoa', 'YE': 'Yemen', 'YT': 'Mayotte',
+    'ZA': 'South Africa', 'ZM': 'Zambia', 'ZR': 'Congo - Kinshasa', 'ZW': 'Zimbabwe'
+};
+
+const englishVariantNames: { [code: string]: string } = {
+    '1901': 'Traditional German orthography', '1996': 'German orthography of 1996', 'biske': 'San Giorgio/Bila dialect',
+    'fonipa': 'IPA Phonetics', 'hepburn': 'Hepburn romanization', 'monoton': 'Monotonic', 'nedis': 'Natisone dialect',
+    'pinyin': 'Pinyin Romanization', 'polyton': 'Polytonic', 'rozaj': 'Resian', 'scotland': 'Scottish Standard English',
+    'valencia': 'Valencian', 'wadegile': 'Wade-Giles Romanization'
+};
+
+interface DisplayNamesOptions {
+    type: 'language' | 'script' | 'region';
+    languageDisplay?: 'standard' | 'dialect';
+}
+
+interface IntlDisplayNames {
+    of(code: string): string | undefined;
+}
+
+interface IntlWithDisplayNames {
+    DisplayNames?: new (locales: string[], options: DisplayNamesOptions) => IntlDisplayNames;
+}
+
+function variantsEnclosed(name: string, variants: string[], opening: string, closing: string): string {
+    return name.charAt(name.length - 1) === closing ?
+        `${name.slice(0, -1)}, ${variants.join(', ')}${closing}` :
+        `${name}${opening}${variants.join(', ')}${closing}`;
+}
+
+function intlDisplayName(displayNames: new (locales: string[], options: DisplayNamesOptions) => IntlDisplayNames,
+                         language: LanguageTag, inLanguage: LanguageTag): string | undefined {
+    const names = new displayNames([inLanguage.intlTag], {type: 'language', languageDisplay: 'standard'});
+    const base = [language.language, language.extendedLanguage, language.script, language.region]
+        .filter(subtag => subtag)
+        .join('-');
+    if (language.variants.length <= 1) {
+        return names.of([base].concat(language.variants).join('-'));
+    }
+    // the names of multiple variants aren't supported, thus they are extracted from the names of the single variants
+    let brackets = [' (', ')'];
+    const variants = language.variants.map(variant => {
+        const enclosed = /(\s*[(（])(.*)([)）])$/.exec(names.of(`und-${variant}`) || '');
+        brackets = enclosed ? [enclosed[1], enclosed[3]] : brackets;
+        return enclosed ? enclosed[2] : variant.toUpperCase();
+    });
+    return variantsEnclosed(names.of(base) || base, variants, brackets[0], brackets[1]);
+}
+
+function fallbackDisplayName(language: LanguageTag, inLanguage: LanguageTag): string {
+    const name = (names: { [code: string]: string }, code: string | undefined) => code ? names[code] || code : code;
+    const languageName = inLanguage.language === language.language ?
+        nativeLanguageNames[language.language] || language.language :
+        name(englishLanguageNames, language.language)!;
+    const details = [
+        name(englishScriptNames, language.script),
+        name(englishRegionNames, language.region)
+    ].concat(language.variants.map(variant => englishVariantNames[variant] || variant.toUpperCase()));
+    const specified = details.filter(detail => detail);
+    return specified.length > 0 ? `${languageName} (${specified.join(', ')})` : languageName;
+}
+
+/**
+ * Provides the display name of a language tag (see [[LanguageTag.displayName]]).
+ */
+export function displayName(language: LanguageTag, inLanguage: LanguageTag): string {
+    if (language.irregular) {
+        return language.tag;
+    }
+    try {
+        const displayNames = (Intl as {} as IntlWithDisplayNames).DisplayNames;
+        const name = displayNames ? intlDisplayName(displayNames, language, inLanguage) : undefined;
+        if (name) {
+            return name;
+        }
+    } catch (e) {
+        // not supported by Intl.DisplayNames, e.g. extended language subtags
+    }
+    return fallbackDisplayName(language, inLanguage);
+}
+
+/**
+ * Lists the languages supported by a translator with their names, e.g. for a language switcher.
+ *
+ * **Example:**
+ * ```typescript
+ * languageNames(translator, languageTag('en'), languageTag('en'));
+ * // [{language: en, nativeName: 'English', displayName: 'English'},
+ * //  {language: de-CH, nativeName: 'Deutsch (Schweiz)', displayName: 'German (Switzerland)'}]
+ * ```
+ *
+ * @param translator the translator.
+ * @param sourceLanguage the language of the default messages, which is listed first if specified.
+ * @param inLanguage the language of the [[LanguageName.displayName]], usually the user's current language. Defaults to
+ *     `sourceLanguage` or, if not specified, to the language itself.
+ * @returns the languages with their names.
+ */
+export function languageNames(translator: Translator<{}>, sourceLanguage?: LanguageTag,
+                              inLanguage?: LanguageTag): LanguageName[] {
+    const languages = translator.languages().filter(language => language !== sourceLanguage);
+    return (sourceLanguage ? [sourceLanguage] : []).concat(languages).map(language => ({
+        language,
+        nativeName: language.displayName(),
+        displayName: language.displayName(inLanguage || sourceLanguage || language)
+    }));
+}
@@ -0,0 +1,57 @@
+import { format, formatObject, plural } from '.';
+import { languageTag } from './LanguageTag';
+import IntlMessageFormat from 'intl-messageformat';
+
+const en = languageTag('en');
+const iterations = 10000;
+const msgFormat = 'Task {1} of {2, number} is due {3, date, short}';
+const due = new Date(2017, 9, 19);
+
+function measure(name: string, f: (i: number) => string): number {
+    const start = Date.now();
+    for (let i = 0; i < iterations; i++) {
+        f(i);
+    }
+    const duration = Date.now() - start;
+    process.stdout.write(`${name}: ${iterations} calls in ${duration}ms\n`);
+    return duration;
+}
+
+function parsingOnEveryCall(message: string, parameters: (i: number) => {}): number {
+    return measure(`parsing "${message}" on every call`, i =>
+        new IntlMessageFormat(message, en.tag).format(parameters(i)));
+}
+
+describe('format performance', () => {
+    it('must be considerably faster than parsing the message on every call', () => {
+        const parsing = parsingOnEveryCall(msgFormat, i => ({1: 'Write docs', 2: i, 3: due}));
+        const formatter = format<string, number, Date>(en, msgFormat);
+        const compiled = measure('format', i => formatter('Write docs', i, due));
+        expect(compiled * 5).toBeLessThan(parsing);
+    });
+
+    it('must format objects considerably faster than parsing the message on every call', () => {
+        const message = '{title}: {n, number}';
+        const parsing = parsingOnEveryCall(message, i => ({title: 'Progress', n: i / 3}));
+        const formatter = formatObject<{ title: string, n: number }>(en, message);
+        const compiled = measure('formatObject', i => formatter({title: 'Progress', n: i / 3}));
+        expect(compiled * 5).toBeLessThan(parsing);
+    });
+
+    it('must not parse plurals on every call', () => {
+        const parsing = parsingOnEveryCall('{1, plural, one {one} other {other}}', i => ({1: i}));
+        const formatter = plural(en, {
+            one: 'One task',
+            other: n => `${n} tasks`
+        });
+        const compiled = measure('plural', i => formatter(i));
+        expect(compiled * 3).toBeLessThan(parsing);
+    });
+
+    it('must create formatters for the same message faster than parsing the message', () => {
+        const parsing = parsingOnEveryCall(msgFormat, () => ({1: 'Write docs', 2: 1, 3: due}));
+        const creating = measure('creating formatters', () =>
+            format<string, number, Date>(en, msgFormat)('Write docs', 1, due));
+        expect(creating * 2).toBeLessThan(parsing);
+    });
+});
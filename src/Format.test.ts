@@ -1,15 +1,27 @@
 import {
     addFormats,
+    checkPluralForms,
+    describeFormatter,
     format,
     formatObject,
     FormatOptions,
+    formatRich,
+    formatNamed,
     formats,
+    formatTyped,
+    list,
+    ordinalFormat,
     plural,
     Plural,
+    pluralCategories,
+    pluralFormat,
+    resetFormats,
+    runWithFormats,
     select,
     selectObject,
     setFormats
 } from '.';
+import { formatterLike, maxCompiledFormats, parsePluralMessage } from './Format';
 import { languageTag } from './LanguageTag';
 import IntlPolyfill = require('intl');
 import areIntlLocalesSupported from 'intl-locales-supported';
@@ -65,7 +77,117 @@ describe('formatted', () => {
     });
 });
 
+describe('formatNamed', () => {
+    it('must provide a string based on the named arguments', () => {
+        const f = formatNamed<{ user: string, count: number }>(
+            en, '{user} has {count, plural, one {# task} other {# tasks}}');
+        expect(f({user: 'Anna', count: 1})).toBe('Anna has 1 task');
+        expect(f({user: 'Ben', count: 3})).toBe('Ben has 3 tasks');
+    });
+
+    it('must support more than five arguments', () => {
+        const f = formatNamed<{ [key: string]: number }>(en, '{a}{b}{c}{d}{e}{f}{g}');
+        expect(f({a: 1, b: 2, c: 3, d: 4, e: 5, f: 6, g: 7})).toBe('1234567');
+    });
+
+    it('must report arguments without values', () => {
+        const f = formatNamed<{ user?: string, count: number }>(en, '{user} has {count, number} tasks');
+        expect(() => f({count: 3})).toThrow('No value provided for argument(s) user of message ' +
+                                            '"{user} has {count, number} tasks"');
+    });
+});
+
+describe('formatTyped', () => {
+    it('must accept lists for declared list arguments', () => {
+        const f = formatTyped(en, '{names} liked this', {names: 'list'});
+        expect(f({names: ['Anna', 'Ben', 'Carl']})).toBe('Anna, Ben, and Carl liked this');
+    });
+
+    it('must provide a string based on the specified format', () => {
+        const f = formatTyped(en, '{name} has {cats, number} cats born {born, date, short}.',
+                              {name: 'string', cats: 'number', born: 'date'});
+        expect(f({name: 'Anna', cats: 12, born: new Date(2017, 9, 19)})).toBe('Anna has 12 cats born 10/19/17.');
+    });
+
+    it('must reject messages not matching the declared arguments', () => {
+        expect(() => formatTyped(en, 'Hello {name}', {n: 'number'})).toThrow();
+        expect(() => formatTyped(en, 'Hello {n, date}', {n: 'number'})).toThrow();
+    });
+});
+
+describe('formatRich', () => {
+    interface Element {
+        tag: string;
+        children: Array<string | Element>;
+    }
+
+    const element = (tag: string) => (children: Array<string | Element>): Element => ({tag, children});
+
+    it('must render the tags of the message', () => {
+        const f = formatRich(en, 'Hello <b>{name}</b>, read the <link>terms of <b>{count, number}</b> pages</link>!',
+                             {name: 'string', count: 'number'}, ['b', 'link']);
+        expect(f({name: 'Anna', count: 1234}, {b: element('b'), link: element('a')})).toEqual([
+            'Hello ',
+            {tag: 'b', children: ['Anna']},
+            ', read the ',
+            {tag: 'a', children: ['terms of ', {tag: 'b', children: ['1,234']}, ' pages']},
+            '!'
+        ]);
+        expect(describeFormatter(f)).toEqual({
+            kind: 'formatRich',
+            msgFormat: 'Hello <b>{name}</b>, read the <link>terms of <b>{count, number}</b> pages</link>!',
+            argumentTypes: {name: 'string', count: 'number'},
+            tags: ['b', 'link']
+        });
+    });
+
+    it('must render self-closing tags and tags in plural cases', () => {
+        const f = formatRich(en, '{n, plural, one {<b>#</b> task} other {<b>#</b> tasks}}<br/>', {n: 'number'},
+                             ['b', 'br']);
+        expect(f({n: 3}, {b: element('b'), br: element('br')}))
+            .toEqual([{tag: 'b', children: ['3']}, ' tasks', {tag: 'br', children: []}]);
+    });
+
+    it('must not interpret argument values as tags', () => {
+        const f = formatRich(en, '<b>{name}</b> liked this', {name: 'string'}, ['b']);
+        expect(f({name: '<b>Anna</b>'}, {b: children => children.join('')})).toEqual(['<b>Anna</b>', ' liked this']);
+    });
+
+    it('must reject messages not matching the declared tags', () => {
+        expect(() => formatRich(en, 'Read the <link>terms</link>', {}, ['b']))
+            .toThrow('Tags of message "Read the <link>terms</link>" don\'t match: ' +
+                '<link> is not a declared tag, <b> is declared but not used');
+        expect(() => formatRich(en, 'Hello <b>{name}</b>', {n: 'number'}, ['b'])).toThrow();
+    });
+
+    it('must reject improperly nested tags', () => {
+        const renderers = {b: element('b'), i: element('i')};
+        expect(() => formatRich(en, '<b><i>Hi</b></i>', {}, ['b', 'i'])({}, renderers))
+            .toThrow('Unexpected closing tag </b> in message "<b><i>Hi</b></i>"');
+        expect(() => formatRich(en, '<b>Hi', {}, ['b'])({}, {b: element('b')}))
+            .toThrow('Unclosed tag <b> in message "<b>Hi"');
+    });
+});
+
 describe('formattedObject', () => {
+    it('must format arrays as list', () => {
+        expect(formatObject<{ names: string[] }>(de, '{names} gefällt das')({names: ['Anna', 'Ben', 'Carl']}))
+            .toBe('Anna, Ben und Carl gefällt das');
+        expect(format<string[], number>(en, '{1} and {2, number} others')(['Anna', 'Ben'], 3))
+            .toBe('Anna and Ben and 3 others');
+    });
+
+    it('must reject arrays for arguments which are not simple arguments', () => {
+        expect(() => formatObject<{ n: number[] }>(en, '{n, number}')({n: [1, 2]}))
+            .toThrow('Argument "n" of message "{n, number}" is used as number and can\'t be a list');
+        expect(() => format<Date[]>(en, 'Due {1, date}')([new Date()])).toThrow();
+    });
+
+    it('must accept missing parameter objects for messages without arguments', () => {
+        expect(formatObject<undefined>(en, 'No arguments')(undefined)).toBe('No arguments');
+        expect(formatObject<null>(en, 'No arguments')(null)).toBe('No arguments');
+    });
+
     it('must provide a string based on the specified format', () => {
         const f = formatObject<{ cats: number, blackRatio: number }>(
             en, 'I have {cats, number} cats. Almost {blackRatio, number, percent} of them are black.');
@@ -76,12 +198,50 @@ describe('formattedObject', () => {
         expect(formatObject(en, '{pi, number, #.##}')({pi: pi})).toBe('3.14');
     });
 
+    it('must share compiled formats for the same message, language and formats', () => {
+        const msg = '{pi, number, #.#}';
+        expect(formatObject(en, msg)).toBe(formatObject(en, msg));
+        expect(formatObject(en, msg)).not.toBe(formatObject(de, msg));
+        expect(formatObject(en, msg)).not.toBe(formatObject(en, msg, customFormat));
+    });
+
+    it('must only keep the least recently used compiled formats', () => {
+        const options: FormatOptions = {};
+        const recent = formatObject(en, '{recent}', options);
+        const old = formatObject(en, '{old}', options);
+        for (let i = 0; i < maxCompiledFormats - 1; i++) {
+            formatObject(en, `{a${i}}`, options);
+            expect(formatObject(en, '{recent}', options)).toBe(recent);
+        }
+        expect(formatObject(en, '{old}', options)).not.toBe(old);
+        expect(old({old: 'still working'})).toBe('still working');
+    });
+
     it('must support custom formats', () => {
         expect(formatObject(en, '{pi, number, #}', customFormat)({pi: pi})).toBe('3.142');
         expect(formatObject(en, '{pi, number, scientific}', customFormat)({pi: pi})).toBe('3.14');
     });
 });
 
+describe('describeFormatter', () => {
+    it('must describe the formatters created by this module', () => {
+        expect(describeFormatter(format(en, '{1}'))).toEqual({kind: 'format', msgFormat: '{1}'});
+        expect(describeFormatter(formatObject(en, '{a}'))).toEqual({kind: 'formatObject', msgFormat: '{a}'});
+        expect(describeFormatter(formatNamed(en, '{b}'))).toEqual({kind: 'formatNamed', msgFormat: '{b}'});
+        expect(describeFormatter(formatTyped(en, '{c, number}', {c: 'number'})))
+            .toEqual({kind: 'formatTyped', msgFormat: '{c, number}', argumentTypes: {c: 'number'}});
+        expect(describeFormatter(plural(en, {other: n => `${n}`}))).toEqual({kind: 'plural', forms: {}});
+        expect(describeFormatter(plural(en, {one: 'one', other: format(en, '{1}')}))).toEqual({
+            kind: 'plural',
+            msgFormat: '{1, plural, one {one} other {{1}}}',
+            forms: {one: 'one', other: '{1}'}
+        });
+        expect(describeFormatter(pluralFormat(en, {other: '#'})))
+            .toEqual({kind: 'plural', msgFormat: '{1, plural, other {#}}', forms: {other: '#'}});
+        expect(describeFormatter(() => 'custom')).toBeUndefined();
+    });
+});
+
 describe('formats', () => {
     it('must be possible to completely replace the existing default formats', () => {
         const defaultFormats = formats();
@@ -110,6 +270,44 @@ describe('formats', () => {
 
         setFormats(defaultFormats);
     });
+
+    it('must resolve the formats registered for a language and its parents', () => {
+        const price = (currency: string) => ({number: {price: {style: 'currency', currency}}});
+        addFormats(price('EUR'), de);
+        addFormats(price('CHF'), languageTag('de-CH'));
+
+        expect(format(languageTag('de-DE'), '{1, number, price}')(3)).toBe('3,00\u00a0€');
+        expect(format(languageTag('de-CH'), '{1, number, price}')(3)).toBe('CHF\u00a03.00');
+        expect(formats(languageTag('de-CH')).number!['#.##']).toEqual(formats().number!['#.##']);
+        expect(formats(languageTag('de-CH'))).toBe(formats(languageTag('de-CH')));
+        expect(formats(en).number!.price).toBeUndefined();
+
+        resetFormats();
+        expect(formats(de).number!.price).toBeUndefined();
+    });
+
+    it('must keep the default formats immutable', () => {
+        const defaultFormats = formats();
+
+        expect(() => defaultFormats.number!['#'] = {}).toThrow();
+        addFormats({number: {'#': {minimumFractionDigits: 1}}});
+        expect(defaultFormats.number!['#']).toEqual({minimumFractionDigits: 0, maximumFractionDigits: 0});
+
+        resetFormats();
+        expect(formats()).toBe(defaultFormats);
+    });
+
+    it('must apply scoped formats while running a function only', () => {
+        const defaultFormats = formats();
+        const scientific = runWithFormats(customFormat, () => format(en, '{1, number, scientific}'));
+
+        expect(scientific(pi)).toBe('3.14');
+        expect(formats()).toBe(defaultFormats);
+        expect(() => runWithFormats(customFormat, () => {
+            throw 'failed';
+        })).toThrow('failed');
+        expect(formats()).toBe(defaultFormats);
+    });
 });
 
 describe('plural', () => {
@@ -141,6 +339,222 @@ describe('plural', () => {
         expect(f(21)).toBe(msgs.other(21));
         expect(f(100)).toBe(msgs.other(100));
     });
+
+    it('must describe an equivalent message if all cases are strings or created by format', () => {
+        const f = plural(en, {zero: 'No {tasks} #', one: 'One task', other: format(en, '{1, number} tasks')});
+        const msgFormat = describeFormatter(f)!.msgFormat!;
+        expect(msgFormat).toBe('{1, plural, =0 {No \\{tasks\\} \\#} one {One task} other {{1, number} tasks}}');
+        [0, 1, 1234].forEach(n => expect(format<number>(en, msgFormat)(n)).toBe(f(n)));
+        expect(describeFormatter(plural(en, {one: 'One task', other: n => `${n} tasks`}))!.msgFormat).toBeUndefined();
+    });
+});
+
+describe('parsePluralMessage', () => {
+    it('must split plural messages into their forms', () => {
+        expect(parsePluralMessage('{1, plural, =0 {No \\} task} one {# {1, number} task} other {# tasks}}')).toEqual({
+            type: 'cardinal',
+            forms: {exact: {0: 'No \\} task'}, one: '# {1, number} task', other: '# tasks'}
+        });
+        expect(parsePluralMessage('{1,selectordinal,offset:1 one {#st} other {#th}}'))
+            .toEqual({type: 'ordinal', forms: {offset: 1, one: '#st', other: '#th'}});
+    });
+
+    it('must reject messages which are no single plural of the first argument', () => {
+        expect(parsePluralMessage('{count, plural, other {# tasks}}')).toBeUndefined();
+        expect(parsePluralMessage('{1, plural, other {# tasks}} left')).toBeUndefined();
+        expect(parsePluralMessage('{1, plural, one {# task}}')).toBeUndefined();
+        expect(parsePluralMessage('{1, plural, some {# tasks} other {# tasks}}')).toBeUndefined();
+        expect(parsePluralMessage('{1, plural, other {# tasks}')).toBeUndefined();
+    });
+});
+
+describe('formatterLike', () => {
+    it('must create a formatter of the same kind', () => {
+        const typed = formatterLike({kind: 'formatTyped', msgFormat: '{n, number}', argumentTypes: {n: 'number'}},
+                                    de, '{n, number} Aufgaben');
+        expect(typed({n: 1234})).toBe('1.234 Aufgaben');
+        expect(describeFormatter(typed)).toEqual(
+            {kind: 'formatTyped', msgFormat: '{n, number} Aufgaben', argumentTypes: {n: 'number'}});
+        expect(() => formatterLike({kind: 'formatTyped', argumentTypes: {n: 'number'}}, de, '{m}')).toThrow();
+        expect(formatterLike({kind: 'formatNamed'}, de, '{a}')({a: 'x'})).toBe('x');
+        expect(formatterLike({kind: 'format'}, de, '{1}')('y')).toBe('y');
+    });
+
+    it('must create plurals of a single number argument', () => {
+        const f = formatterLike({kind: 'plural', pluralType: 'ordinal'}, en,
+                                '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}');
+        expect(f(22)).toBe('22nd');
+        expect(describeFormatter(f)).toEqual({
+            kind: 'plural',
+            msgFormat: '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}'
+        });
+        expect(describeFormatter(formatterLike({kind: 'plural'}, en, '{1, selectordinal, one {#st} other {#th}}')))
+            .toEqual({
+                kind: 'plural',
+                msgFormat: '{1, selectordinal, one {#st} other {#th}}',
+                forms: {one: '#st', other: '#th'},
+                pluralType: 'ordinal'
+            });
+        expect(() => formatterLike({kind: 'plural'}, en, '{a, number} {b, number}')).toThrow(
+            'Plural message "{a, number} {b, number}" must reference exactly one number argument');
+    });
+});
+
+describe('pluralFormat', () => {
+    it('must format the message of the plural category of the number', () => {
+        const f = pluralFormat(languageTag('ru'), {
+            one: '{1, number} задача',
+            few: '# задачи',
+            many: '{1, number} задач',
+            other: '{1, number, #.#} задачи'
+        });
+        expect(f(1)).toBe('1 задача');
+        expect(f(21)).toBe('21 задача');
+        expect(f(3)).toBe('3 задачи');
+        expect(f(11)).toBe('11 задач');
+        expect(f(1.5)).toBe('1,5 задачи');
+    });
+
+    it('must prefer exact values and subtract the offset', () => {
+        const f = pluralFormat(en, {
+            exact: {0: 'Nobody likes this', 1: 'You like this'},
+            offset: 1,
+            one: 'You and # other like this',
+            other: 'You and # others of {1, number} like this'
+        });
+        expect(f(0)).toBe('Nobody likes this');
+        expect(f(1)).toBe('You like this');
+        expect(f(2)).toBe('You and 1 other like this');
+        expect(f(4)).toBe('You and 3 others of 4 like this');
+    });
+
+    it('must use the CLDR category zero', () => {
+        const f = pluralFormat(languageTag('ar'), {
+            exact: {1: 'exactly one'},
+            zero: 'zero',
+            one: 'one',
+            other: 'other'
+        });
+        expect(f(0)).toBe('zero');
+        expect(f(1)).toBe('exactly one');
+        expect(f(100)).toBe('other');
+        expect(describeFormatter(f)).toEqual({
+            kind: 'plural',
+            msgFormat: '{1, plural, =1 {exactly one} zero {zero} one {one} other {other}}',
+            forms: {'=1': 'exactly one', 'zero': 'zero', 'one': 'one', 'other': 'other'}
+        });
+    });
+});
+
+describe('ordinalFormat', () => {
+    it('must format the message of the ordinal category of the number', () => {
+        const f = ordinalFormat(en, {exact: {1: 'first'}, one: '#st', two: '#nd', few: '#rd', other: '#th'});
+        expect([1, 2, 3, 4, 11, 12, 21, 22, 23, 101].map(f))
+            .toEqual(['first', '2nd', '3rd', '4th', '11th', '12th', '21st', '22nd', '23rd', '101st']);
+        expect(describeFormatter(f)!.pluralType).toBe('ordinal');
+    });
+});
+
+describe('pluralCategories', () => {
+    it('must provide the categories used by the language', () => {
+        expect(pluralCategories(en)).toEqual(['one', 'other']);
+        expect(pluralCategories(en, 'ordinal')).toEqual(['one', 'two', 'few', 'other']);
+        expect(pluralCategories(languageTag('pl'))).toEqual(['one', 'few', 'many', 'other']);
+        expect(pluralCategories(languageTag('ar'))).toEqual(['zero', 'one', 'two', 'few', 'many', 'other']);
+    });
+});
+
+describe('checkPluralForms', () => {
+    it('must accept forms matching the plural rules of the language', () => {
+        checkPluralForms(languageTag('pl'), {one: '# zadanie', few: '# zadania', many: '# zadań', other: '# zadania'});
+        checkPluralForms(en, {exact: {0: 'none'}, one: '# task', other: '# tasks'});
+        checkPluralForms(en, {one: '#st', two: '#nd', few: '#rd', other: '#th'}, 'ordinal');
+    });
+
+    it('must reject missing and unused categories', () => {
+        expect(() => checkPluralForms(languageTag('pl'), {one: '# zadanie', other: '# zadania'}))
+            .toThrow('Plural forms for pl don\'t match: missing categories few, many');
+        expect(() => checkPluralForms(en, {zero: 'none', one: '# task', other: '# tasks'}))
+            .toThrow('Plural forms for en don\'t match: categories zero not used by the language');
+        expect(() => checkPluralForms(en, {one: '#st', other: '#th'}, 'ordinal'))
+            .toThrow('Plural forms for en don\'t match: missing categories two, few');
+    });
+});
+
+describe('unicode locale keywords', () => {
+    const afternoon = new Date(2020, 0, 1, 15, 5);
+
+    it('must use the numbering system of the language', () => {
+        const arab = languageTag('de-DE-u-nu-arab');
+        expect(format<number>(arab, '{1, number, #.#}')(1234.5)).toBe('١٬٢٣٤٫٥');
+        expect(plural(arab, {one: 'eins', other: format<number>(arab, '{1, number} Aufgaben')})(12))
+            .toBe('١٢ Aufgaben');
+        expect(selectObject<{ n: number }>(arab, () => 'other', {other: '{n, number}'})({n: 3})).toBe('٣');
+    });
+
+    it('must use the hour cycle of the language', () => {
+        expect(format<Date>(languageTag('en-u-hc-h23'), '{1, time, short}')(afternoon)).toBe('15:05');
+        expect(format<Date>(en, '{1, time, short}')(afternoon)).toBe('3:05 PM');
+
+        const twelveHours: FormatOptions = {time: {clock: <Intl.DateTimeFormatOptions> {
+            hour: 'numeric', minute: 'numeric', hour12: true
+        }}};
+        expect(format<Date>(languageTag('en-u-hc-h23'), '{1, time, clock}', twelveHours)(afternoon)).toBe('15:05');
+        expect(format<Date>(en, '{1, time, clock}', twelveHours)(afternoon)).toBe('3:05 PM');
+    });
+
+    it('must use the calendar of the language', () => {
+        expect(format<Date>(languageTag('en-u-ca-buddhist'), '{1, date, long}')(afternoon))
+            .toBe('January 1, 2563 BE');
+    });
+
+    it('must use the currency of the language', () => {
+        expect(formatObject<{ price: number }>(languageTag('en-u-cu-eur'), '{price, number, currency}')({price: 3}))
+            .toBe('€3.00');
+        expect(pluralFormat(languageTag('de-u-cu-chf'), {other: '{1, number, currency}'})(3)).toBe('3,00\u00a0CHF');
+    });
+});
+
+describe('list', () => {
+    const items = ['red', 'green', 'blue'];
+
+    it('must join the items with the connectives of the language', () => {
+        expect(list(en)(items)).toBe('red, green, and blue');
+        expect(list(de)(items)).toBe('red, green und blue');
+        expect(list(en)(['red', 'green'])).toBe('red and green');
+        expect(list(en)(['red'])).toBe('red');
+        expect(list(en)([])).toBe('');
+    });
+
+    it('must support irregular language tags', () => {
+        expect(list(languageTag('zh-min-nan'))(['a', 'b']).length).toBeGreaterThan(2);
+        expect(format<number>(languageTag('i-klingon'), 'x {1, number}')(3)).toBe('x 3');
+        expect(format<number>(languageTag('x-foo'), 'x {1, number}')(3)).toBe('x 3');
+        expect(formatObject<{ n: number }>(languageTag('no-bok'), '{n, plural, one {# bok} other {# bøker}}')({n: 1}))
+            .toBe('1 bok');
+    });
+
+    it('must respect the type and style', () => {
+        expect(list(en, {type: 'disjunction'})(items)).toBe('red, green, or blue');
+        expect(list(en, {style: 'short'})(items)).toBe('red, green, & blue');
+        expect(list(en, {type: 'unit', style: 'narrow'})(['1h', '20m'])).toBe('1h 20m');
+    });
+
+    describe('without Intl.ListFormat', () => {
+        const intl = Intl as {} as { ListFormat?: {} };
+        const listFormat = intl.ListFormat;
+
+        beforeEach(() => delete intl.ListFormat);
+        afterEach(() => intl.ListFormat = listFormat);
+
+        it('must use the bundled patterns', () => {
+            expect(list(en)(items)).toBe('red, green, and blue');
+            expect(list(de, {type: 'disjunction'})(['rot', 'grün', 'blau', 'gelb'])).toBe('rot, grün, blau oder gelb');
+            expect(list(en, {type: 'unit', style: 'narrow'})(['1h', '20m'])).toBe('1h 20m');
+            expect(list(languageTag('zh-TW'))(items)).toBe('red、green和blue');
+            expect(list(languageTag('tlh'))(['$1', '{1}', '$&'])).toBe('$1, {1}, and $&');
+        });
+    });
 });
 
 describe('select', () => {
@@ -1,4 +1,9 @@
+import { ListPatterns, listPatterns } from './CldrData';
 import { LanguageTag } from './LanguageTag';
+import {
+    Arguments, ArgumentTypes, checkArguments, checkTags, messageArguments, messageTagPattern
+} from './MessageArguments';
+import { MessageCache } from './MessageCache';
 import IntlMessageFormat from 'intl-messageformat';
 import NumberFormatOptions = Intl.NumberFormatOptions;
 import DateTimeFormatOptions = Intl.DateTimeFormatOptions;
@@ -15,55 +20,323 @@ export interface FormatOptions {
 }
 
 function numberFormat(fractionDigits: number): NumberFormatOptions {
-    return {
+    return Object.freeze({
         minimumFractionDigits: fractionDigits,
         maximumFractionDigits: fractionDigits
-    }
+    });
 }
 
-const defaultFormats: FormatOptions = {
-    number: {
+const defaultFormats: FormatOptions = Object.freeze({
+    number: Object.freeze({
         '#': numberFormat(0),
         '#.#': numberFormat(1),
         '#.##': numberFormat(2),
         '#.###': numberFormat(3),
         '#.####': numberFormat(4),
         '#.#####': numberFormat(5),
-    }
-};
+    })
+});
 
 let _formats: FormatOptions = defaultFormats;
+const languageFormats: Map<LanguageTag, FormatOptions> = new Map();
+const scopedFormats: FormatOptions[] = [];
+
+const mergedFormatOptions: WeakMap<FormatOptions, WeakMap<FormatOptions, FormatOptions>> = new WeakMap();
 
 /**
- * Global [[FormatOptions]] used by the [[format]] and [[formatObject]] function if nothing else is
- * specified there. You can use [[setFormats]] and [[addFormats]] to register custom formats.
+ * Merges `override` into `base` per format type. The result is shared by all calls with the same objects, as compiled
+ * formats are cached per formats object.
+ */
+function mergedFormats(base: FormatOptions, override: FormatOptions): FormatOptions {
+    let mergedByOverride = mergedFormatOptions.get(base);
+    if (!mergedByOverride) {
+        mergedByOverride = new WeakMap();
+        mergedFormatOptions.set(base, mergedByOverride);
+    }
+    let merged = mergedByOverride.get(override);
+    if (!merged) {
+        // create a new object instead of modifying the existing one, as it may be shared or frozen
+        merged = { ...base as object };
+        for (let key in override) {
+            if (merged.hasOwnProperty(key)) {
+                merged[key] = { ... merged[key] as object, ... override[key] as object };
+            } else {
+                merged[key] = override[key];
+            }
+        }
+        mergedByOverride.set(override, merged);
+    }
+    return merged;
+}
+
+/**
+ * The [[FormatOptions]] used by the [[format]] and [[formatObject]] function if nothing else is specified there.
+ * You can use [[setFormats]] and [[addFormats]] to register custom formats for all or specific languages and
+ * [[runWithFormats]] or [[Translator.withFormats]] to override them temporarily.
  *
  * By default the number formats `#`, `#.#`, `#.##` to `#.#####` are defined.
  * You can use them in a message string like eg. `{1, number, #.##}` to format a number with the specified number of
  * fraction digits.
+ *
+ * @param language the language to resolve the formats for. The formats registered for the language and its
+ *     [[LanguageTag.parent]]s are merged into the formats registered for all languages, the more specific language
+ *     taking precedence (e.g. `de-CH` over `de`).
+ * @returns the formats for the language or, if not specified, the formats registered for all languages.
  */
-export function formats(): FormatOptions {
-    return _formats as FormatOptions;
+export function formats(language?: LanguageTag): FormatOptions {
+    let resolved = _formats;
+    if (language) {
+        const registered: FormatOptions[] = [];
+        for (let lang: LanguageTag | undefined = language; lang; lang = lang.parent()) {
+            const formatOptions = languageFormats.get(lang);
+            if (formatOptions) {
+                registered.unshift(formatOptions);
+            }
+        }
+        resolved = registered.reduce(mergedFormats, resolved);
+    }
+    return scopedFormats.reduce(mergedFormats, resolved);
 }
 
 /**
- * Replaces the current global [[formats]].
+ * Replaces the [[formats]] registered for all languages or for the specified language.
+ *
+ * @param formatOptions the new formats.
+ * @param language the language to register the formats for, e.g. `languageTag('de-CH')` for a `currency` format
+ *     using CHF. Defaults to all languages.
  */
-export function setFormats(formatOptions: FormatOptions): void {
-    _formats = formatOptions;
+export function setFormats(formatOptions: FormatOptions, language?: LanguageTag): void {
+    if (language) {
+        languageFormats.set(language, formatOptions);
+    } else {
+        _formats = formatOptions;
+    }
 }
 
 /**
- * Merges the specified formats into the global [[formats]].
+ * Merges the specified formats into the [[formats]] registered for all languages or for the specified language.
+ *
+ * @param formatOptions the formats to add.
+ * @param language the language to register the formats for. Defaults to all languages.
  */
-export function addFormats(formatOptions: FormatOptions): void {
-    for (let key in formatOptions) {
-        if (_formats.hasOwnProperty(key)) {
-            _formats[key] = { ... _formats[key] as object, ... formatOptions[key] as object };
-        } else {
-            _formats[key] = formatOptions[key];
+export function addFormats(formatOptions: FormatOptions, language?: LanguageTag): void {
+    const registered = language ? languageFormats.get(language) : _formats;
+    setFormats(registered ? mergedFormats(registered, formatOptions) : formatOptions, language);
+}
+
+/**
+ * Restores the default [[formats]] and removes the formats registered for specific languages.
+ */
+export function resetFormats(): void {
+    _formats = defaultFormats;
+    languageFormats.clear();
+}
+
+/**
+ * Executes `fn` with the specified formats merged into the [[formats]] of all languages. The formats only apply to
+ * formatters created while `fn` is running synchronously, which allows to use different formats in a single place
+ * (e.g. in a test) without affecting others. Unlike the languages of [[runWithLanguage]] the formats are kept on a
+ * plain module level stack rather than an `AsyncLocalStorage`, thus they don't apply to asynchronous continuations.
+ *
+ * Messages cached by a [[Translator]] are not affected if they have been built before, as their formatters have
+ * already been created. Use [[Translator.withFormats]] to apply formats to the messages of a translator.
+ *
+ * **Example:**
+ * ```typescript
+ * const price = runWithFormats({number: {price: {style: 'currency', currency: 'EUR'}}},
+ *                              () => format<number>(languageTag('de'), '{1, number, price}'));
+ * price(3); // '3,00 €'
+ * ```
+ *
+ * @param formatOptions the formats to apply while `fn` is running.
+ * @param fn the function to execute.
+ * @returns the result of `fn`.
+ */
+export function runWithFormats<T>(formatOptions: FormatOptions, fn: () => T): T {
+    scopedFormats.push(formatOptions);
+    try {
+        return fn();
+    } finally {
+        scopedFormats.pop();
+    }
+}
+
+interface IntlFormatOptions {
+    [option: string]: string | boolean | number | undefined;
+}
+
+/**
+ * The formats predefined by Format.JS (e.g. `{1, number, currency}` or `{1, time, short}`).
+ */
+const intlMessageFormats = (IntlMessageFormat as {} as { formats: FormatOptions }).formats;
+
+const keywordFormats: WeakMap<FormatOptions, Map<string, FormatOptions>> = new WeakMap();
+
+function withKeywords(formatsOfType: { [key: string]: {} },
+                      keywordOptions: (options: IntlFormatOptions) => IntlFormatOptions): { [key: string]: {} } {
+    const result: { [key: string]: {} } = {};
+    for (const key of Object.keys(formatsOfType)) {
+        result[key] = keywordOptions({...formatsOfType[key]});
+    }
+    return result;
+}
+
+/**
+ * Applies the [[UnicodeLocaleKeywords]] of the language to the predefined and custom formats, so that they are
+ * respected by all engines. The numbering system, calendar and hour cycle are also passed in the language tag itself,
+ * but the currency isn't taken from the tag by `Intl.NumberFormat` and explicit `hour12` options would override the
+ * hour cycle of the tag.
+ */
+function localizedFormats(formatOptions: FormatOptions, language: LanguageTag): FormatOptions {
+    const keywords = language.unicodeKeywords;
+    if (!keywords.numberingSystem && !keywords.calendar && !keywords.hourCycle && !keywords.currency) {
+        return formatOptions;
+    }
+    let formatsByLanguage = keywordFormats.get(formatOptions);
+    if (!formatsByLanguage) {
+        formatsByLanguage = new Map();
+        keywordFormats.set(formatOptions, formatsByLanguage);
+    }
+    let localized = formatsByLanguage.get(language.tag);
+    if (!localized) {
+        const numberOptions = (options: IntlFormatOptions) => ({
+            ...options,
+            numberingSystem: keywords.numberingSystem || options.numberingSystem,
+            currency: options.style === 'currency' && keywords.currency || options.currency
+        });
+        const dateTimeOptions = (options: IntlFormatOptions) => ({
+            ...options,
+            numberingSystem: keywords.numberingSystem || options.numberingSystem,
+            calendar: keywords.calendar || options.calendar,
+            hourCycle: keywords.hourCycle || options.hourCycle,
+            hour12: keywords.hourCycle ? undefined : options.hour12
+        });
+        const merged = (type: 'number' | 'date' | 'time') => ({...intlMessageFormats[type], ...formatOptions[type]});
+        localized = {
+            number: withKeywords(merged('number'), numberOptions),
+            date: withKeywords(merged('date'), dateTimeOptions),
+            time: withKeywords(merged('time'), dateTimeOptions)
+        };
+        formatsByLanguage.set(language.tag, localized);
+    }
+    return localized;
+}
+
+/**
+ * The maximum number of compiled formats kept per format options.
+ */
+export const maxCompiledFormats = 1000;
+
+const compiledFormats: WeakMap<FormatOptions, MessageCache<IntlMessageFormat, string>> = new WeakMap();
+
+/**
+ * Provides the compiled format for the specified message, language and formats. Parsing a message is expensive,
+ * thus compiled formats are shared by all formatters using the same combination. Only the [[maxCompiledFormats]]
+ * least recently used formats are kept for the same formats, so that messages created on the fly (e.g. from user
+ * input) don't leak memory. Formatters keep their compiled format anyway.
+ */
+function compiledFormat(msgFormat: string, language: LanguageTag, options: FormatOptions): IntlMessageFormat {
+    const formatOptions = localizedFormats(options, language);
+    let formatsByMessage = compiledFormats.get(formatOptions);
+    if (!formatsByMessage) {
+        formatsByMessage = new MessageCache<IntlMessageFormat, string>({maxSize: maxCompiledFormats});
+        compiledFormats.set(formatOptions, formatsByMessage);
+    }
+    return formatsByMessage.get(`${language.tag} ${msgFormat}`,
+                                () => new IntlMessageFormat(msgFormat, language.intlTag, formatOptions));
+}
+
+/**
+ * Describes how a message function has been created, so that tools can inspect messages (e.g. to export or validate
+ * translations).
+ */
+export interface FormatterDescription {
+    /**
+     * The function that created the formatter, e.g. `formatObject` for [[formatObject]]. `plural` stands for
+     * [[plural]], [[pluralFormat]] and [[ordinalFormat]].
+     */
+    readonly kind: 'format' | 'formatObject' | 'formatNamed' | 'formatTyped' | 'formatRich' | 'plural';
+
+    /**
+     * The message in [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/} if the formatter is based
+     * on a single message. For plurals this is an equivalent message like `{1, plural, one {# task} other {# tasks}}`,
+     * which is only available for [[plural]]s whose cases are all strings or created by [[format]].
+     */
+    readonly msgFormat?: string;
+
+    /**
+     * The declared arguments of a message created by [[formatTyped]] or [[formatRich]].
+     */
+    readonly argumentTypes?: ArgumentTypes;
+
+    /**
+     * The messages of the cases of a [[plural]] by their CLDR plural category (`zero`, `one`, `two`, `few`, `many` or
+     * `other`) and the messages of exact values by `=N` (e.g. `=0`). Cases defined by a function are only included if
+     * the function has been created by [[format]].
+     */
+    readonly forms?: { [category: string]: string };
+
+    /**
+     * The tags of a message created by [[formatRich]].
+     */
+    readonly tags?: string[];
+
+    /**
+     * `ordinal` for the formatters created by [[ordinalFormat]], `undefined` for cardinal plurals.
+     */
+    readonly pluralType?: PluralType;
+}
+
+const formatterDescriptions: WeakMap<Function, FormatterDescription> = new WeakMap();
+
+function described<F extends Function>(formatter: F, description: FormatterDescription): F {
+    formatterDescriptions.set(formatter, description);
+    return formatter;
+}
+
+/**
+ * Describes a message function created by one of the formatting functions of this module.
+ *
+ * @param formatter the message function to describe.
+ * @returns the description or `undefined` if the function has not been created by this module.
+ */
+export function describeFormatter(formatter: Function): FormatterDescription | undefined {
+    return formatterDescriptions.get(formatter);
+}
+
+const objectFormatters: WeakMap<IntlMessageFormat, (parameters: {}) => string> = new WeakMap();
+
+const conjunctions: WeakMap<LanguageTag, (items: string[]) => string> = new WeakMap();
+
+/**
+ * Formats the arrays of the argument values as conjunction [[list]], which isn't supported by the message syntax.
+ * Only simple arguments like `{names}` accept arrays, as `number` or `date` arguments would format them as `NaN`.
+ */
+function withLists<P>(language: LanguageTag, msgFormat: string, parameters: P): P {
+    if (parameters === undefined || parameters === null) {
+        return parameters;
+    }
+    const values = parameters as {} as { [name: string]: {} | undefined };
+    let result = values;
+    let argumentTypes: ArgumentTypes | undefined;
+    for (const name of Object.keys(values)) {
+        const value = values[name];
+        if (Array.isArray(value)) {
+            argumentTypes = argumentTypes || messageArguments(msgFormat);
+            const type = argumentTypes[name];
+            if (type !== undefined && type !== 'string') {
+                throw `Argument "${name}" of message "${msgFormat}" is used as ${type} and can't be a list`;
+            }
+            let conjunction = conjunctions.get(language);
+            if (!conjunction) {
+                conjunction = list(language);
+                conjunctions.set(language, conjunction);
+            }
+            result = result === values ? {...values as object} : result;
+            result[name] = conjunction(value.map(String));
         }
     }
+    return result as {} as P;
 }
 
 /**
@@ -76,22 +349,226 @@ export function addFormats(formatOptions: FormatOptions): void {
  * msg({msgCount: 3}); // 'Current message count is 3'
  * ```
  *
+ * Arrays passed as values of simple arguments like `{names}` are formatted as [[list]] of the type `conjunction`
+ * (e.g. `Anna, Ben and Carl`). Other arguments like `{count, number}` don't accept arrays.
+ *
  * @param language the locale to be used for message formatting (e.g. for numbers and [[plural]]s)
  * @param msgFormat the message using [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/}.
  * @param formatOptions custom format options used by the message.
- *  Defaults to the globally registered [[formats]].
+ *  Defaults to the [[formats]] of the language.
  * @returns a function accepting the parameter object.
+ * @throws the returned function throws an exception if an array is passed for an argument which isn't a simple
+ *     argument.
  */
 export function formatObject<P>(language: LanguageTag,
                                 msgFormat: string,
-                                formatOptions: FormatOptions = formats()): (parameters: P) => string {
-    return new IntlMessageFormat(msgFormat, language.tag, formatOptions).format;
+                                formatOptions: FormatOptions = formats(language)): (parameters: P) => string {
+    const compiled = compiledFormat(msgFormat, language, formatOptions);
+    let objectFormatter = objectFormatters.get(compiled);
+    if (!objectFormatter) {
+        objectFormatter = described((parameters: {}) => compiled.format(withLists(language, msgFormat, parameters)),
+                                    {kind: 'formatObject', msgFormat: msgFormat});
+        objectFormatters.set(compiled, objectFormatter);
+    }
+    return objectFormatter;
+}
+
+/**
+ * Format messages with named arguments using [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/}.
+ * The message references the properties of the parameter object by name (e.g. `{user}` or `{count, number}`),
+ * which gives translators the context positional arguments like `{1}` lack. There is no limit on the number of
+ * arguments.
+ *
+ * In contrast to [[formatObject]] the returned function checks that the parameter object provides a value for every
+ * argument referenced by the message.
+ *
+ * **Example:**
+ * ```typescript
+ * const msg = formatNamed<{user: string, count: number}>(languageTag('en'),
+ *                                                        '{user} has {count, plural, one {# task} other {# tasks}}');
+ * msg({user: 'Anna', count: 3}); // 'Anna has 3 tasks'
+ * ```
+ *
+ * @param language the locale to be used for message formatting (e.g. for numbers and [[plural]]s)
+ * @param msgFormat the message using [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/}.
+ * @param formatOptions custom format options used by the message.
+ *  Defaults to the [[formats]] of the language.
+ * @returns a function accepting the parameter object.
+ * @throws the returned function throws an exception if an argument referenced by the message is missing in the
+ *     parameter object.
+ */
+export function formatNamed<P>(language: LanguageTag,
+                               msgFormat: string,
+                               formatOptions: FormatOptions = formats(language)): (parameters: P) => string {
+    const argumentNames = Object.keys(messageArguments(msgFormat));
+    const formatter = formatObject<P>(language, msgFormat, formatOptions);
+    const namedFormatter = (parameters: P) => {
+        const values = parameters as {} as {[name: string]: {} | undefined};
+        const missing = argumentNames.filter(name => values[name] === undefined);
+        if (missing.length > 0) {
+            throw `No value provided for argument(s) ${missing.join(', ')} of message "${msgFormat}"`;
+        }
+        return formatter(parameters);
+    };
+    return described(namedFormatter, {kind: 'formatNamed', msgFormat: msgFormat});
+}
+
+/**
+ * Like [[formatObject]] but derives the type of the parameter object from the declared `argumentTypes`, which are
+ * checked against the arguments actually referenced by the message. Thus a message referencing an undeclared
+ * argument or using an argument with another type than declared is reported when creating the formatter instead of
+ * silently producing wrong output.
+ *
+ * Note that the compiler can't infer the argument types from the message itself, so they have to be declared and
+ * are only checked at runtime.
+ *
+ * **Example:**
+ * ```typescript
+ * const msg = formatTyped(languageTag('en'), '{name} has {count, number} tasks', {name: 'string', count: 'number'});
+ * msg({name: 'Anna', count: 3}); // 'Anna has 3 tasks'
+ * msg({name: 'Anna'});           // compile error: count is missing
+ * ```
+ *
+ * @param language the locale to be used for message formatting (e.g. for numbers and [[plural]]s)
+ * @param msgFormat the message using [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/}.
+ * @param argumentTypes the arguments referenced by the message and their types.
+ * @param formatOptions custom format options used by the message.
+ *  Defaults to the [[formats]] of the language.
+ * @returns a function accepting the parameter object.
+ * @throws an exception if the arguments of the message don't match the declared `argumentTypes`.
+ */
+export function formatTyped<S extends ArgumentTypes>(language: LanguageTag,
+                                                     msgFormat: string,
+                                                     argumentTypes: S,
+                                                     formatOptions: FormatOptions = formats(language)
+): (parameters: Arguments<S>) => string {
+    checkArguments(msgFormat, argumentTypes);
+    const formatter = formatObject<Arguments<S>>(language, msgFormat, formatOptions);
+    return described((parameters: Arguments<S>) => formatter(parameters),
+                     {kind: 'formatTyped', msgFormat: msgFormat, argumentTypes: {...argumentTypes as object}});
+}
+
+/**
+ * Renders a tag of a [[formatRich]] message, e.g. as React element or DOM node.
+ *
+ * @param children the parts of the message enclosed by the tag, empty for self-closing tags like `<br/>`.
+ */
+export type TagRenderer<R> = (children: Array<string | R>) => R;
+
+/**
+ * The [[TagRenderer]]s for the tags `T` of a [[formatRich]] message.
+ */
+export type TagRenderers<T extends string, R> = {
+    [K in T]: TagRenderer<R>;
+};
+
+/**
+ * Replaces `<` in argument values, so that values can't be mistaken for tags.
+ */
+const escapedTagStart = '\uffff';
+
+function escapedValues(language: LanguageTag, msgFormat: string, parameters: {}): {} {
+    const values = withLists(language, msgFormat, parameters) as { [name: string]: {} | undefined };
+    const result: { [name: string]: {} | undefined } = {};
+    Object.keys(values).forEach(name => {
+        const value = values[name];
+        result[name] = typeof value === 'string' ? value.replace(/</g, escapedTagStart) : value;
+    });
+    return result;
+}
+
+function richParts<R>(text: string, renderers: { [tag: string]: TagRenderer<R> | undefined },
+                      msgFormat: string): Array<string | R> {
+    const open: Array<{ tag: string, parts: Array<string | R> }> = [{tag: '', parts: []}];
+    const add = (part: string | R) => open[open.length - 1].parts.push(part);
+    const addText = (part: string) => part && add(part.replace(/\uffff/g, '<'));
+    const render = (tag: string, children: Array<string | R>) => {
+        const renderer = renderers[tag];
+        if (!renderer) {
+            throw `No renderer provided for tag <${tag}> of message "${msgFormat}"`;
+        }
+        add(renderer(children));
+    };
+    const pattern = new RegExp(messageTagPattern.source, 'g');
+    let position = 0;
+    let match = pattern.exec(text);
+    while (match) {
+        const [tagText, closing, tag, selfClosing] = match;
+        addText(text.substring(position, match.index));
+        position = match.index + tagText.length;
+        if (selfClosing) {
+            render(tag, []);
+        } else if (!closing) {
+            open.push({tag, parts: []});
+        } else if (open.length > 1 && open[open.length - 1].tag === tag) {
+            render(tag, open.pop()!.parts);
+        } else {
+            throw `Unexpected closing tag </${tag}> in message "${msgFormat}"`;
+        }
+        match = pattern.exec(text);
+    }
+    addText(text.substr(position));
+    if (open.length > 1) {
+        throw `Unclosed tag <${open[open.length - 1].tag}> in message "${msgFormat}"`;
+    }
+    return open[0].parts;
+}
+
+/**
+ * Like [[formatTyped]] but formats a rich text message containing tags like `<b>…</b>`, `<link>…</link>` or `<br/>`
+ * into parts instead of a single string. The content of each tag is passed to the [[TagRenderer]] provided for it,
+ * so that e.g. a word can be emphasized or a link embedded without splitting the message or injecting HTML. The
+ * result contains the plain text parts and whatever the renderers return, e.g. React elements or DOM nodes.
+ *
+ * The declared `tags` are checked against the tags used by the message like the `argumentTypes` against its
+ * arguments, and determine the renderers the returned function requires. Argument values are never interpreted as
+ * tags.
+ *
+ * **Example:**
+ * ```typescript
+ * const msg = formatRich(languageTag('en'), 'Hello <b>{name}</b>, read the <link>terms</link>',
+ *                        {name: 'string'}, ['b', 'link']);
+ * msg({name: 'Anna'}, {
+ *   b: children => <strong>{children}</strong>,
+ *   link: children => <a href="/terms">{children}</a>
+ * }); // ['Hello ', <strong>Anna</strong>, ', read the ', <a href="/terms">terms</a>]
+ * ```
+ *
+ * @param language the locale to be used for message formatting (e.g. for numbers and [[plural]]s)
+ * @param msgFormat the message using [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/} and tags.
+ * @param argumentTypes the arguments referenced by the message and their types.
+ * @param tags the names of the tags used by the message.
+ * @param formatOptions custom format options used by the message.
+ *  Defaults to the [[formats]] of the language.
+ * @returns a function accepting the parameter object and the renderers of the tags.
+ * @throws an exception if the arguments or tags of the message don't match the declared `argumentTypes` and `tags`.
+ *     The returned function throws an exception if the tags of the message are not properly nested.
+ */
+export function formatRich<S extends ArgumentTypes, T extends string>(
+    language: LanguageTag,
+    msgFormat: string,
+    argumentTypes: S,
+    tags: T[],
+    formatOptions: FormatOptions = formats(language)
+): <R>(parameters: Arguments<S>, renderers: TagRenderers<T, R>) => Array<string | R> {
+    checkArguments(msgFormat, argumentTypes);
+    checkTags(msgFormat, tags);
+    const compiled = compiledFormat(msgFormat, language, formatOptions);
+    const richFormatter = <R>(parameters: Arguments<S>, renderers: TagRenderers<T, R>) =>
+        richParts<R>(compiled.format(escapedValues(language, msgFormat, parameters)), renderers as {}, msgFormat);
+    return described(richFormatter, {
+        kind: 'formatRich',
+        msgFormat: msgFormat,
+        argumentTypes: {...argumentTypes as object},
+        tags: tags.slice()
+    });
 }
 
 /**
  * Format messages using [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/}.
  * Instead of using an object as parameter like [[formatObject]] this function accepts up to five parameters,
- * which are then available by the names `1` to `5` inside the message string.
+ * which are then available by the names `1` to `5` inside the message string. Like in [[formatObject]] arrays are
+ * formatted as [[list]].
  *
  * **Example:**
  * ```typescript
@@ -101,29 +578,67 @@ export function formatObject<P>(language: LanguageTag,
  * @param language the language to be used for message formatting (e.g. for numbers and [[plural]]s)
  * @param msgFormat the message using [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/}.
  * @param formatOptions custom format options used by the message.
- *  Defaults to the globally registered [[formats]].
+ *  Defaults to the [[formats]] of the language.
  * @returns a function accepting the specified number of parameters.
  */
 export function format<P1, P2 = undefined, P3 = undefined, P4 = undefined, P5 = undefined>(
     language: LanguageTag,
     msgFormat: string,
-    formatOptions: FormatOptions = formats()): (p1: P1, p2?: P2, p3?: P3, p4?: P4, p5?: P5) => string {
-    return (p1: P1, p2?: P2, p3?: P3, p4?: P4, p5?: P5) =>
-        new IntlMessageFormat(msgFormat, language.tag, formatOptions).format({1: p1, 2: p2, 3: p3, 4: p4, 5: p5});
+    formatOptions: FormatOptions = formats(language)): (p1: P1, p2?: P2, p3?: P3, p4?: P4, p5?: P5) => string {
+    const compiled = compiledFormat(msgFormat, language, formatOptions);
+    const positionalFormatter = (p1: P1, p2?: P2, p3?: P3, p4?: P4, p5?: P5) =>
+        compiled.format(withLists(language, msgFormat, {1: p1, 2: p2, 3: p3, 4: p4, 5: p5}));
+    return described(positionalFormatter, {kind: 'format', msgFormat: msgFormat});
 }
 
 /**
- * Defines the different messages for a [[plural]]ized message.
+ * Defines the different messages for a [[plural]]ized message. Each case is either a plain message or a function
+ * formatting the number.
  */
 export interface Plural {
-    zero?: string;
-    one?: string;
-    two?: string;
-    few?: (n: number) => string;
-    many?: (n: number) => string;
+    /**
+     * The message for exactly `0`. Note that unlike in [[pluralFormat]] this is not the CLDR plural category `zero`.
+     */
+    zero?: string | ((n: number) => string);
+    one?: string | ((n: number) => string);
+    two?: string | ((n: number) => string);
+    few?: string | ((n: number) => string);
+    many?: string | ((n: number) => string);
     other: (n: number) => string;
 }
 
+const escapedCharacters = /[{}#\\]/g;
+
+/**
+ * Converts the cases of a [[plural]] to [[PluralForms]], escaping plain string cases.
+ */
+function pluralFormsMessages(p: Plural, forms: { [category: string]: string }): PluralForms {
+    const message = (category: string) =>
+        typeof p[category] === 'string' ? forms[category].replace(escapedCharacters, '\\$&') : forms[category];
+    const result: PluralForms = {other: message('other')};
+    allPluralCategories
+        .filter(category => category !== 'zero' && category !== 'other' && forms[category] !== undefined)
+        .forEach(category => result[category] = message(category));
+    if (forms.zero !== undefined) {
+        result.exact = {0: message('zero')};
+    }
+    return result;
+}
+
+function pluralForms(p: Plural): { [category: string]: string } {
+    const forms: { [category: string]: string } = {};
+    Object.keys(p).forEach(category => {
+        const form: string | Function | undefined = p[category];
+        const description = typeof form === 'function' ? describeFormatter(form) : undefined;
+        if (typeof form === 'string') {
+            forms[category] = form;
+        } else if (description && description.kind === 'format') {
+            forms[category] = description.msgFormat!;
+        }
+    });
+    return forms;
+}
+
 /**
  * Creates a pluralized message which will return the adequate message based on the provided number and language.
  *
@@ -138,6 +653,7 @@ export interface Plural {
  * ```
  *
  * @see [Format.JS message syntax](https://formatjs.io/guides/message-syntax/#plural-format) for details
+ * @see [[pluralFormat]] for ordinals, offsets and exact values other than `0`.
  *
  * @param language the language to be used for decision which of the plural forms to choose.
  * @param p the messages for the different cases.
@@ -152,22 +668,334 @@ export function plural(language: LanguageTag, p: Plural): (n: number) => string
         (p.many ? 'many {many} ' : '') +
         'other {other}}';
     const selection = format<number>(language, msgFormat);
-    return (n: number) => {
-        switch (selection(n)) {
-            case 'zero':
-                return p.zero!;
-            case 'one':
-                return p.one!;
-            case 'two':
-                return p.two!;
-            case 'few':
-                return p.few!(n);
-            case 'many':
-                return p.many!(n);
-            default:
-                return p.other(n);
+    const formatter = (n: number) => {
+        const form = p[selection(n)] as string | ((n: number) => string);
+        return typeof form === 'function' ? form(n) : form;
+    };
+    const forms = pluralForms(p);
+    const complete = Object.keys(p).every(category => p[category] === undefined || forms[category] !== undefined);
+    return described(formatter, {
+        kind: 'plural',
+        msgFormat: complete ? pluralMessage(pluralFormsMessages(p, forms), 'cardinal') : undefined,
+        forms
+    });
+}
+
+/**
+ * The CLDR plural categories. Which of them are used depends on the language.
+ *
+ * @see [CLDR Language Plural Rules](http://www.unicode.org/cldr/charts/latest/supplemental/language_plural_rules.html)
+ */
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/**
+ * The plural rules of a language: `cardinal` for quantities (e.g. `3 tasks`), `ordinal` for ranks (e.g. `3rd task`).
+ */
+export type PluralType = 'cardinal' | 'ordinal';
+
+/**
+ * The messages of a [[pluralFormat]] by CLDR plural category. Each message uses
+ * [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/} and may reference the number as `{1}` or `#`.
+ */
+export interface PluralForms {
+    zero?: string;
+    one?: string;
+    two?: string;
+    few?: string;
+    many?: string;
+    other: string;
+
+    /**
+     * The messages for exact values (`=N` in ICU message syntax), which take precedence over the categories, e.g.
+     * `{0: 'No tasks'}`. Exact values are matched against the number before subtracting the [[offset]].
+     */
+    exact?: { [value: number]: string };
+
+    /**
+     * A number subtracted from the number before picking the category, e.g. `1` for messages like
+     * `You and # others`. `#` refers to the number minus the offset, while `{1}` refers to the number itself.
+     */
+    offset?: number;
+}
+
+const allPluralCategories: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+function pluralMessage(forms: PluralForms, type: PluralType): string {
+    const exact = forms.exact || {};
+    const cases = Object.keys(exact)
+        .map(value => `=${value} {${exact[value]}}`)
+        .concat(allPluralCategories
+            .filter(category => forms[category] !== undefined)
+            .map(category => `${category} {${forms[category]}}`));
+    return `{1, ${type === 'ordinal' ? 'selectordinal' : 'plural'}, ` +
+        (forms.offset ? `offset:${forms.offset} ` : '') +
+        cases.join(' ') +
+        '}';
+}
+
+function describedPluralForms(forms: PluralForms): { [category: string]: string } {
+    const result: { [category: string]: string } = {};
+    const exact = forms.exact || {};
+    Object.keys(exact).forEach(value => result[`=${value}`] = exact[value]);
+    allPluralCategories
+        .filter(category => forms[category] !== undefined)
+        .forEach(category => result[category] = forms[category]!);
+    return result;
+}
+
+function pluralFormatter(language: LanguageTag, forms: PluralForms, type: PluralType,
+                         formatOptions: FormatOptions): (n: number) => string {
+    const msgFormat = pluralMessage(forms, type);
+    const formatter = format<number>(language, msgFormat, formatOptions);
+    const description: FormatterDescription = {kind: 'plural', msgFormat, forms: describedPluralForms(forms)};
+    return described((n: number) => formatter(n),
+                     type === 'ordinal' ? {...description, pluralType: type} : description);
+}
+
+/**
+ * Creates a pluralized message from one message per CLDR plural category. Unlike [[plural]] every message may reference
+ * the number, which is required for languages like Russian, where e.g. 1 and 21 share the category `one`.
+ *
+ * **Example:**
+ * ```typescript
+ * const msg = pluralFormat(languageTag('ru'), {
+ *   one: '{1, number} задача',
+ *   few: '{1, number} задачи',
+ *   many: '{1, number} задач',
+ *   other: '{1, number} задачи'
+ * });
+ * msg(21); // '21 задача'
+ *
+ * const likes = pluralFormat(languageTag('en'), {
+ *   exact: {0: 'Nobody likes this', 1: 'You like this'},
+ *   offset: 1,
+ *   one: 'You and # other like this',
+ *   other: 'You and # others like this'
+ * });
+ * likes(3); // 'You and 2 others like this'
+ * ```
+ *
+ * @see [[checkPluralForms]] to check that the forms provide all categories required by the language.
+ *
+ * @param language the language to be used for decision which of the plural forms to choose.
+ * @param forms the messages for the plural categories.
+ * @param formatOptions custom format options used by the messages.
+ *  Defaults to the [[formats]] of the language.
+ * @returns a function accepting a numeral argument used to pick and format the right message.
+ */
+export function pluralFormat(language: LanguageTag,
+                             forms: PluralForms,
+                             formatOptions: FormatOptions = formats(language)): (n: number) => string {
+    return pluralFormatter(language, forms, 'cardinal', formatOptions);
+}
+
+/**
+ * Like [[pluralFormat]] but picks the message by the ordinal plural rules of the language (`selectordinal` in ICU
+ * message syntax).
+ *
+ * **Example:**
+ * ```typescript
+ * const place = ordinalFormat(languageTag('en'), {one: '#st', two: '#nd', few: '#rd', other: '#th'});
+ * place(22); // '22nd'
+ * ```
+ *
+ * @param language the language to be used for decision which of the plural forms to choose.
+ * @param forms the messages for the ordinal plural categories.
+ * @param formatOptions custom format options used by the messages.
+ *  Defaults to the [[formats]] of the language.
+ * @returns a function accepting a numeral argument used to pick and format the right message.
+ */
+export function ordinalFormat(language: LanguageTag,
+                              forms: PluralForms,
+                              formatOptions: FormatOptions = formats(language)): (n: number) => string {
+    return pluralFormatter(language, forms, 'ordinal', formatOptions);
+}
+
+const pluralMessagePattern = /^\{\s*1\s*,\s*(plural|selectordinal)\s*,\s*(?:offset\s*:\s*(\d+)\s*)?/;
+const pluralCasePattern = /^\s*(=\d+(?:\.\d+)?|[a-z]+)\s*\{/;
+
+function closingBrace(text: string, start: number): number {
+    let depth = 1;
+    for (let index = start; index < text.length; index++) {
+        if (text[index] === '\\') {
+            index++;
+        } else if (text[index] === '{') {
+            depth++;
+        } else if (text[index] === '}' && --depth === 0) {
+            return index;
         }
+    }
+    return -1;
+}
+
+/**
+ * Splits a message consisting of a single `plural` or `selectordinal` argument `{1}` (like the messages of
+ * [[pluralFormat]] and [[ordinalFormat]], see [[FormatterDescription.msgFormat]]) into its [[PluralForms]].
+ *
+ * @param msgFormat the message to split.
+ * @returns the type and forms of the plural or `undefined` if the message is no such plural.
+ */
+export function parsePluralMessage(msgFormat: string): { type: PluralType, forms: PluralForms } | undefined {
+    const match = pluralMessagePattern.exec(msgFormat);
+    if (!match) {
+        return undefined;
+    }
+    const cases: { [selector: string]: string } = {};
+    let rest = msgFormat.slice(match[0].length);
+    let pluralCase = pluralCasePattern.exec(rest);
+    while (pluralCase) {
+        const end = closingBrace(rest, pluralCase[0].length);
+        const selector = pluralCase[1];
+        if (end < 0 || (selector[0] !== '=' && allPluralCategories.indexOf(selector as PluralCategory) < 0)) {
+            return undefined;
+        }
+        cases[selector] = rest.slice(pluralCase[0].length, end);
+        rest = rest.slice(end + 1);
+        pluralCase = pluralCasePattern.exec(rest);
+    }
+    if (!/^\s*\}$/.test(rest) || cases.other === undefined) {
+        return undefined;
+    }
+    const forms: PluralForms = {other: cases.other};
+    const exact: { [value: number]: string } = {};
+    Object.keys(cases).forEach(selector => {
+        if (selector[0] === '=') {
+            exact[parseFloat(selector.slice(1))] = cases[selector];
+        } else {
+            forms[selector] = cases[selector];
+        }
+    });
+    if (Object.keys(exact).length > 0) {
+        forms.exact = exact;
+    }
+    if (match[2]) {
+        forms.offset = parseInt(match[2], 10);
+    }
+    return {type: match[1] === 'selectordinal' ? 'ordinal' : 'cardinal', forms};
+}
+
+function pluralFormatterLike(language: LanguageTag, msgFormat: string): (n: number) => string {
+    const argumentTypes = messageArguments(msgFormat);
+    const argumentNames = Object.keys(argumentTypes);
+    if (argumentNames.length !== 1 || argumentTypes[argumentNames[0]] !== 'number') {
+        throw `Plural message "${msgFormat}" must reference exactly one number argument`;
+    }
+    const formatter = formatObject<{ [name: string]: number }>(language, msgFormat);
+    const parsed = parsePluralMessage(msgFormat);
+    const description: FormatterDescription = {
+        kind: 'plural',
+        msgFormat,
+        forms: parsed ? describedPluralForms(parsed.forms) : undefined
     };
+    return described((n: number) => formatter({[argumentNames[0]]: n}),
+                     parsed && parsed.type === 'ordinal' ? {...description, pluralType: parsed.type} : description);
+}
+
+/**
+ * Creates a formatter for another message (e.g. a translation) by the same function as the described formatter, so
+ * that the formatters accept the same parameters. A plural message has to reference a single number argument.
+ *
+ * @param description the description of the original formatter.
+ * @param language the language of the message.
+ * @param msgFormat the message using [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/}.
+ * @returns the new formatter.
+ * @throws an exception if the message doesn't reference the arguments or tags of the described formatter.
+ */
+export function formatterLike(description: FormatterDescription, language: LanguageTag, msgFormat: string): Function {
+    switch (description.kind) {
+        case 'format':
+            return format(language, msgFormat);
+        case 'formatNamed':
+            return formatNamed(language, msgFormat);
+        case 'formatTyped':
+            return formatTyped(language, msgFormat, description.argumentTypes!);
+        case 'formatRich':
+            return formatRich(language, msgFormat, description.argumentTypes!, description.tags!);
+        case 'plural':
+            return pluralFormatterLike(language, msgFormat);
+        default:
+            return formatObject(language, msgFormat);
+    }
+}
+
+interface LanguagePluralCategories {
+    integers: PluralCategory[];
+    all: PluralCategory[];
+}
+
+const integerProbes = Array.from({length: 200}, (value: undefined, index: number) => index)
+    .concat([1000, 10000, 100000, 1000000]);
+const decimalProbes = [0.1, 0.5, 1.1, 1.5, 2.1, 2.5, 10.5];
+
+const resolvedPluralCategories: Map<string, LanguagePluralCategories> = new Map();
+
+/**
+ * Determines the plural categories of a language by probing the plural rules used for formatting, so that the result
+ * is consistent with the categories actually picked.
+ */
+function languagePluralCategories(language: LanguageTag, type: PluralType): LanguagePluralCategories {
+    const key = `${type} ${language.tag}`;
+    let categories = resolvedPluralCategories.get(key);
+    if (!categories) {
+        const probe = {zero: 'zero', one: 'one', two: 'two', few: 'few', many: 'many', other: 'other'};
+        const selection = format<number>(language, pluralMessage(probe, type), {});
+        const categoriesOf = (numbers: number[]) => {
+            const selected = numbers.map(n => selection(n));
+            return allPluralCategories.filter(category => selected.indexOf(category) >= 0);
+        };
+        categories = {
+            integers: categoriesOf(integerProbes),
+            all: categoriesOf(integerProbes.concat(decimalProbes))
+        };
+        resolvedPluralCategories.set(key, categories);
+    }
+    return categories;
+}
+
+/**
+ * Provides the CLDR plural categories used by a language, e.g. `['one', 'few', 'many', 'other']` for Polish cardinals
+ * or `['one', 'two', 'few', 'other']` for English ordinals.
+ *
+ * @param language the language.
+ * @param type the plural rules. Defaults to `cardinal`.
+ * @returns the categories in the order `zero`, `one`, `two`, `few`, `many`, `other`.
+ */
+export function pluralCategories(language: LanguageTag, type: PluralType = 'cardinal'): PluralCategory[] {
+    return languagePluralCategories(language, type).all.slice();
+}
+
+/**
+ * Checks that plural forms match the plural rules of a language: they must provide the messages of all categories
+ * the language uses for integers (e.g. `few` and `many` for Polish or Arabic) and must not provide messages of
+ * categories the language doesn't use at all (e.g. `zero` for English, where `exact: {0: ...}` is meant instead).
+ * Categories only used for decimals (e.g. `many` for Czech) may be omitted.
+ *
+ * **Example:**
+ * ```typescript
+ * checkPluralForms(languageTag('pl'), {one: '# zadanie', other: '# zadania'});
+ * // throws 'Plural forms for pl don't match: missing categories few, many'
+ * ```
+ *
+ * @param language the language of the forms.
+ * @param forms the plural forms to check.
+ * @param type the plural rules of the forms. Defaults to `cardinal`.
+ * @throws an exception describing the mismatches if the forms don't match the plural rules of the language.
+ */
+export function checkPluralForms(language: LanguageTag, forms: PluralForms, type: PluralType = 'cardinal'): void {
+    const categories = languagePluralCategories(language, type);
+    const problems: string[] = [];
+    const missing = categories.integers.filter(category => forms[category] === undefined);
+    const unused = allPluralCategories
+        .filter(category => forms[category] !== undefined && categories.all.indexOf(category) < 0);
+    if (missing.length > 0) {
+        problems.push(`missing categories ${missing.join(', ')}`);
+    }
+    if (unused.length > 0) {
+        problems.push(`categories ${unused.join(', ')} not used by the language`);
+    }
+    if (problems.length > 0) {
+        throw `Plural forms for ${language.tag} don't match: ${problems.join(', ')}`;
+    }
 }
 
 /**
@@ -234,4 +1062,80 @@ export function selectObject<P>(language: LanguageTag, selector: (parameters: P)
             return result(parameters);
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * The options of a [[list]].
+ */
+export interface ListOptions {
+    /**
+     * `conjunction` (the default) for lists like `A, B and C`, `disjunction` for `A, B or C` and `unit` for lists of
+     * measures like `1 hr, 20 min`.
+     */
+    type?: 'conjunction' | 'disjunction' | 'unit';
+
+    /**
+     * The width of the connectives (e.g. `A, B, & C` for English `short` conjunctions). Defaults to `long`.
+     */
+    style?: 'long' | 'short' | 'narrow';
+}
+
+interface IntlListFormat {
+    format(items: string[]): string;
+}
+
+interface IntlWithListFormat {
+    ListFormat?: new (locales: string[], options: ListOptions) => IntlListFormat;
+}
+
+function combine(pattern: string, first: string, second: string): string {
+    const firstIndex = pattern.indexOf('{0}');
+    const secondIndex = pattern.indexOf('{1}');
+    return pattern.substring(0, firstIndex) + first + pattern.substring(firstIndex + 3, secondIndex) + second +
+        pattern.substring(secondIndex + 3);
+}
+
+function fallbackListPatterns(language: LanguageTag, type: string, style: string): ListPatterns {
+    const patterns = listPatterns[language.language] || listPatterns.en;
+    return patterns[`${type}-${style}`] || patterns[type] || patterns.conjunction;
+}
+
+/**
+ * Creates a formatter joining items to a list using the connectives of the language, e.g. `Anna, Ben and Carl` or
+ * `red, green, or blue`. Uses `Intl.ListFormat` if available, otherwise the CLDR list patterns, which are bundled for
+ * widely used languages only. Other languages fall back to English.
+ *
+ * Arrays passed as argument values to [[format]] and [[formatObject]] messages are formatted as conjunction list.
+ *
+ * **Example:**
+ * ```typescript
+ * list(languageTag('en'))(['Anna', 'Ben', 'Carl']);                        // 'Anna, Ben, and Carl'
+ * list(languageTag('de'), {type: 'disjunction'})(['rot', 'grün', 'blau']); // 'rot, grün oder blau'
+ * ```
+ *
+ * @param language the language of the connectives.
+ * @param options the type and style of the list.
+ * @returns a function accepting the items of the list.
+ */
+export function list(language: LanguageTag, options: ListOptions = {}): (items: string[]) => string {
+    const type = options.type || 'conjunction';
+    const style = options.style || 'long';
+    const listFormat = (Intl as {} as IntlWithListFormat).ListFormat;
+    if (listFormat) {
+        const intlFormat = new listFormat([language.intlTag], {type, style});
+        return items => intlFormat.format(items);
+    }
+    const [two, start, middle, end] = fallbackListPatterns(language, type, style);
+    return items => {
+        if (items.length <= 1) {
+            return items.join('');
+        } else if (items.length === 2) {
+            return combine(two, items[0], items[1]);
+        }
+        let joined = combine(end, items[items.length - 2], items[items.length - 1]);
+        for (let index = items.length - 3; index > 0; index--) {
+            joined = combine(middle, items[index], joined);
+        }
+        return combine(start, items[0], joined);
+    };
+}
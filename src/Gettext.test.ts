@@ -0,0 +1,222 @@
+import {
+    format,
+    formatObject,
+    gettextPluralForms,
+    LanguageTag,
+    languageTag,
+    parsePo,
+    plural,
+    pluralFormat,
+    poFile,
+    poResources,
+    potFile,
+    poTranslation,
+    ResourceError,
+    translate,
+    writePo
+} from '.';
+
+const de = languageTag('de');
+const ru = languageTag('ru');
+
+const translator = translate((lang: LanguageTag) => ({
+    welcome: 'Welcome\n"friend"',
+    greeting: formatObject<{ name: string }>(lang, 'Hello {name}'),
+    tasks: plural(lang, {
+        one: 'One task',
+        other: format<number>(lang, '{1, number} tasks')
+    }),
+    shout: (s: string) => s.toUpperCase(),
+    task: {
+        add: 'Add task'
+    }
+})).partiallySupporting('ru', (lang: LanguageTag) => ({
+    welcome: 'Добро пожаловать',
+    tasks: pluralFormat(lang, {one: '{1, number} задача', few: '{1, number} задачи', many: '{1, number} задач',
+        other: '{1, number} задачи'})
+}));
+
+describe('gettextPluralForms', () => {
+    const languages = [
+        'en', 'de', 'fr', 'pt', 'pt-PT', 'ja', 'ru', 'uk', 'hr', 'cs', 'pl', 'lt', 'lv', 'ro', 'sl', 'ar'
+    ];
+
+    languages.forEach(language => it(`must match the CLDR plural rules of ${language}`, () => {
+        const tag = languageTag(language);
+        const forms = gettextPluralForms(tag)!;
+        const nplurals = parseInt(/nplurals=(\d+)/.exec(forms.expression)![1], 10);
+        const gettextPlural = new Function('n', `return ${/plural=(.*);$/.exec(forms.expression)![1]};`);
+        const cldrCategory = format<number>(tag, '{1, plural, zero {zero} one {one} two {two} few {few} many {many} ' +
+            'other {other}}');
+        expect(forms.categories.length).toBe(nplurals);
+        for (let n = 0; n <= 200; n++) {
+            expect(`${n}: ${forms.categories[+gettextPlural(n)]}`).toBe(`${n}: ${cldrCategory(n)}`);
+        }
+    }));
+
+    it('must not provide plural forms for unknown languages', () => {
+        expect(gettextPluralForms(languageTag('tlh'))).toBeUndefined();
+    });
+});
+
+describe('potFile', () => {
+    it('must export the default messages with their keys as context', () => {
+        const skipped: string[] = [];
+        expect(writePo(potFile(translator, {skipped: message => skipped.push(message.key)}))).toBe(
+            'msgid ""\n' +
+            'msgstr ""\n' +
+            '"Content-Type: text/plain; charset=UTF-8\\n"\n' +
+            '"Content-Transfer-Encoding: 8bit\\n"\n' +
+            '"Plural-Forms: nplurals=INTEGER; plural=EXPRESSION;\\n"\n' +
+            '\n' +
+            'msgctxt "welcome"\n' +
+            'msgid ""\n' +
+            '"Welcome\\n"\n' +
+            '"\\"friend\\""\n' +
+            'msgstr ""\n' +
+            '\n' +
+            '#, icu-message-format\n' +
+            'msgctxt "greeting"\n' +
+            'msgid "Hello {name}"\n' +
+            'msgstr ""\n' +
+            '\n' +
+            '#, icu-message-format\n' +
+            'msgctxt "tasks"\n' +
+            'msgid "One task"\n' +
+            'msgid_plural "{1, number} tasks"\n' +
+            'msgstr[0] ""\n' +
+            'msgstr[1] ""\n' +
+            '\n' +
+            'msgctxt "task.add"\n' +
+            'msgid "Add task"\n' +
+            'msgstr ""\n');
+        expect(skipped).toEqual(['shout']);
+    });
+});
+
+describe('poFile', () => {
+    it('must export the translations of the language', () => {
+        const file = poFile(translator, ru);
+        expect(file.headers['Plural-Forms']).toBe(gettextPluralForms(ru)!.expression);
+        expect(file.entries.map(entry => entry.translations)).toEqual([
+            ['Добро пожаловать'],
+            [''],
+            ['{1, number} задача', '{1, number} задачи', '{1, number} задач'],
+            ['']
+        ]);
+    });
+
+    it('must keep translator comments and flags of the previous file', () => {
+        const previous = parsePo('# Keep it short\n#, fuzzy\nmsgctxt "task.add"\nmsgid "Add a task"\nmsgstr "Neu"\n');
+        const entry = poFile(translator, de, {previous}).entries[3];
+        expect(entry.translatorComments).toEqual(['Keep it short']);
+        expect(entry.flags).toEqual(['fuzzy']);
+        expect(entry.id).toBe('Add task');
+    });
+
+    it('must reject languages with unknown plural forms', () => {
+        expect(() => poFile(translator, languageTag('tlh'))).toThrow();
+        expect(poFile(translator, languageTag('tlh'), {pluralForms: gettextPluralForms(de)}).entries.length).toBe(4);
+    });
+});
+
+describe('parsePo', () => {
+    it('must read what has been written', () => {
+        const file = poFile(translator, ru);
+        expect(parsePo(writePo(file))).toEqual(JSON.parse(JSON.stringify(file)));
+    });
+
+    it('must read comments, flags and multi-line strings', () => {
+        const file = parsePo([
+            '# translator comment',
+            '#',
+            '#. extracted comment',
+            '#: src/TaskList.tsx:12',
+            '#, fuzzy, icu-message-format',
+            'msgctxt "greeting"',
+            'msgid "Hello "',
+            '"{name}"',
+            'msgstr "Hallo\\t{name}"',
+            '',
+            '#~ msgid "obsolete"',
+            'msgid "no context"',
+            'msgstr ""'
+        ].join('\r\n'));
+        expect(file.headers).toEqual({});
+        expect(file.entries).toEqual([{
+            translatorComments: ['translator comment', ''],
+            extractedComments: ['extracted comment'],
+            flags: ['fuzzy', 'icu-message-format'],
+            context: 'greeting',
+            id: 'Hello {name}',
+            translations: ['Hallo\t{name}']
+        }, {
+            translatorComments: [],
+            extractedComments: [],
+            flags: [],
+            id: 'no context',
+            translations: ['']
+        }]);
+    });
+
+    it('must reject malformed files', () => {
+        expect(() => parsePo('msgid "unterminated\n')).toThrow();
+        expect(() => parsePo('msgid "a"\nmsgstr "b"\nnonsense\n')).toThrow();
+    });
+});
+
+describe('poTranslation', () => {
+    const po = [
+        'msgid ""',
+        'msgstr "Language: ru\\n"',
+        '',
+        'msgctxt "greeting"',
+        'msgid "Hello {name}"',
+        'msgstr "Привет, {name}"',
+        '',
+        'msgctxt "tasks"',
+        'msgid "One task"',
+        'msgid_plural "{1, number} tasks"',
+        'msgstr[0] "{1, number} задача"',
+        'msgstr[1] "{1, number} задачи"',
+        'msgstr[2] "{1, number} задач"',
+        '',
+        '#, fuzzy',
+        'msgctxt "task.add"',
+        'msgid "Add task"',
+        'msgstr "Добавить"',
+        '',
+        'msgctxt "welcome"',
+        'msgid "Welcome"',
+        'msgstr ""'
+    ].join('\n');
+
+    it('must provide a partial translation of the translated entries', () => {
+        const file = parsePo(po);
+        const msg = translate(translator.defaultMessagesFor(ru))
+            .partiallySupportingNested('ru', poTranslation(translator, file))
+            .messagesFor(ru);
+        expect(msg.greeting({name: 'Свен'})).toBe('Привет, Свен');
+        expect(msg.tasks(21)).toBe('21 задача');
+        expect(msg.tasks(5)).toBe('5 задач');
+        expect(msg.task.add).toBe('Add task');
+        expect(msg.welcome).toBe('Welcome\n"friend"');
+    });
+
+    it('must map plural forms to CLDR plural categories', () => {
+        expect(poResources(parsePo(po), ru).tasks).toEqual({
+            one: '{1, number} задача',
+            few: '{1, number} задачи',
+            many: '{1, number} задач',
+            other: '{1, number} задач'
+        });
+    });
+
+    it('must report problems', () => {
+        const invalid = parsePo('msgctxt "greeting"\nmsgid "Hello {name}"\nmsgstr "Hallo {nom}"\n');
+        expect(() => poTranslation(translator, invalid)).toThrow('The language of the PO file is unknown');
+        expect(() => poTranslation(translator, invalid, de)).toThrowError(ResourceError);
+        const forms = parsePo('msgctxt "tasks"\nmsgid "One task"\nmsgid_plural "Tasks"\nmsgstr[0] "Eine"\n');
+        expect(() => poResources(forms, de)).toThrow('Entry tasks has 1 plural forms but de has 2');
+    });
+});
@@ -0,0 +1,472 @@
+import { CatalogMessage, catalogMessages } from './Catalog';
+import { PluralCategory } from './Format';
+import { LanguageTag, languageTag } from './LanguageTag';
+import { ResourceMessages, resourceTranslation } from './Resources';
+import { DeepPartial, LocalizedMessages, Messages, Translator } from './Translator';
+
+/**
+ * A single entry of a gettext PO or POT file.
+ */
+export interface PoEntry {
+    /**
+     * Comments of the translators (lines starting with `# `).
+     */
+    readonly translatorComments: string[];
+
+    /**
+     * Comments extracted from the source code (lines starting with `#.`).
+     */
+    readonly extractedComments: string[];
+
+    /**
+     * Flags like `fuzzy` (lines starting with `#,`).
+     */
+    readonly flags: string[];
+
+    /**
+     * The context of the message (`msgctxt`), which is the message key for entries exported by [[poFile]] or
+     * [[potFile]]. Keys of nested namespaces are separated by dots (e.g. `task.add`).
+     */
+    readonly context?: string;
+
+    /**
+     * The message (`msgid`).
+     */
+    readonly id: string;
+
+    /**
+     * The plural form of the message (`msgid_plural`).
+     */
+    readonly idPlural?: string;
+
+    /**
+     * The translations: a single one (`msgstr`) for plain entries and one for each plural form (`msgstr[n]`) for
+     * entries with [[idPlural]]. Empty strings denote missing translations.
+     */
+    readonly translations: string[];
+}
+
+/**
+ * The contents of a gettext PO or POT file.
+ */
+export interface PoFile {
+    /**
+     * The headers of the file, e.g. `Language` and `Plural-Forms`.
+     */
+    readonly headers: { [name: string]: string };
+
+    readonly entries: PoEntry[];
+}
+
+/**
+ * Describes the plural forms of a language for gettext.
+ */
+export interface GettextPluralForms {
+    /**
+     * The CLDR plural category of each gettext plural form, e.g. `['one', 'few', 'many']` for Russian.
+     */
+    readonly categories: PluralCategory[];
+
+    /**
+     * The value of the `Plural-Forms` header, e.g. `nplurals=2; plural=(n != 1);`.
+     */
+    readonly expression: string;
+}
+
+function pluralForms(categories: PluralCategory[], plural: string): GettextPluralForms {
+    return {categories, expression: `nplurals=${categories.length}; plural=${plural};`};
+}
+
+const oneOther = pluralForms(['one', 'other'], '(n != 1)');
+const oneOtherFrench = pluralForms(['one', 'other'], '(n > 1)');
+const other = pluralForms(['other'], '0');
+const slavic = '(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2)';
+const eastSlavic = pluralForms(['one', 'few', 'many'], slavic);
+const southSlavic = pluralForms(['one', 'few', 'other'], slavic);
+const westSlavic = pluralForms(['one', 'few', 'other'], '(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2)');
+
+/**
+ * The gettext plural forms by language tag, e.g. `pt-PT`, or by language subtag.
+ */
+const gettextPluralFormsByLanguage: { [language: string]: GettextPluralForms } = {
+    af: oneOther, bg: oneOther, ca: oneOther, da: oneOther, de: oneOther, el: oneOther, en: oneOther, eo: oneOther,
+    es: oneOther, et: oneOther, eu: oneOther, fi: oneOther, fy: oneOther, gl: oneOther, hu: oneOther, it: oneOther,
+    nb: oneOther, nl: oneOther, nn: oneOther, no: oneOther, sv: oneOther, sw: oneOther, tr: oneOther,
+    fr: oneOtherFrench, hi: oneOtherFrench, pt: oneOtherFrench, 'pt-PT': oneOther,
+    id: other, ja: other, km: other, ko: other, lo: other, ms: other, th: other, vi: other, zh: other,
+    be: eastSlavic, ru: eastSlavic, uk: eastSlavic,
+    bs: southSlavic, hr: southSlavic, sr: southSlavic,
+    cs: westSlavic, sk: westSlavic,
+    pl: pluralForms(['one', 'few', 'many'], '(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2)'),
+    lt: pluralForms(['one', 'few', 'other'], '(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2)'),
+    lv: pluralForms(['zero', 'one', 'other'], '(n%10==0 || n%100>=11 && n%100<=19 ? 0 : n%10==1 && n%100!=11 ? 1 : 2)'),
+    ro: pluralForms(['one', 'few', 'other'], '(n==1 ? 0 : n==0 || n%100>0 && n%100<20 ? 1 : 2)'),
+    sl: pluralForms(['one', 'two', 'few', 'other'], '(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3)'),
+    ar: pluralForms(['zero', 'one', 'two', 'few', 'many', 'other'],
+                    '(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5)')
+};
+
+/**
+ * Provides the gettext plural forms of a language, which match the language's CLDR plural rules for integers.
+ *
+ * @param language the language.
+ * @returns the plural forms or `undefined` if they are not known for the language. In this case pass them as
+ *     [[PoOptions.pluralForms]].
+ */
+export function gettextPluralForms(language: LanguageTag): GettextPluralForms | undefined {
+    return gettextPluralFormsByLanguage[language.tag] || gettextPluralFormsByLanguage[language.language];
+}
+
+/**
+ * Options for converting between [[Translator]]s and gettext files.
+ */
+export interface PoOptions {
+    /**
+     * The language of the default messages. Defaults to `en`.
+     */
+    sourceLanguage?: LanguageTag;
+
+    /**
+     * The plural forms of the target language. Defaults to [[gettextPluralForms]] of the target language.
+     */
+    pluralForms?: GettextPluralForms;
+
+    /**
+     * A previous version of the file, whose translator comments and flags are kept for entries with the same context.
+     */
+    previous?: PoFile;
+
+    /**
+     * Called for each message which can't be exported: custom message functions and [[plural]]s whose `other` case
+     * is not a [[format]] function.
+     */
+    skipped?: (message: CatalogMessage) => void;
+}
+
+function pluralFormsFor(language: LanguageTag, options: PoOptions): GettextPluralForms {
+    const forms = options.pluralForms || gettextPluralForms(language);
+    if (!forms) {
+        throw `No gettext plural forms known for ${language.tag}`;
+    }
+    return forms;
+}
+
+function flagsFor(message: CatalogMessage): string[] {
+    return message.kind === 'string' ? [] : ['icu-message-format'];
+}
+
+function poEntry(message: CatalogMessage, translation: CatalogMessage | undefined,
+                 targetForms: GettextPluralForms | undefined): PoEntry | undefined {
+    const comments = {translatorComments: [], extractedComments: [], flags: flagsFor(message)};
+    if (message.kind === 'plural') {
+        if (!message.forms || message.forms.other === undefined) {
+            return undefined;
+        }
+        const translated = translation && translation.forms ? translation.forms : {};
+        return {
+            ...comments,
+            context: message.key,
+            id: message.forms.one !== undefined ? message.forms.one : message.forms.other,
+            idPlural: message.forms.other,
+            translations: targetForms ?
+                targetForms.categories.map(category => translated[category] || '') :
+                ['', '']
+        };
+    } else if (message.text === undefined) {
+        return undefined;
+    }
+    return {
+        ...comments,
+        context: message.key,
+        id: message.text,
+        translations: [translation && translation.text !== undefined ? translation.text : '']
+    };
+}
+
+function poEntries<M extends Messages>(translator: Translator<M>, targetLanguage: LanguageTag | undefined,
+                                       options: PoOptions): PoEntry[] {
+    const targetForms = targetLanguage ? pluralFormsFor(targetLanguage, options) : undefined;
+    const translations: Map<string, CatalogMessage> = new Map();
+    const translation = targetLanguage ? translator.translationFor(targetLanguage) : undefined;
+    if (translation) {
+        catalogMessages(translation).forEach(message => translations.set(message.key, message));
+    }
+    const previous: Map<string, PoEntry> = new Map();
+    if (options.previous) {
+        options.previous.entries.forEach(entry => previous.set(entry.context || entry.id, entry));
+    }
+    const entries: PoEntry[] = [];
+    catalogMessages(translator.defaultMessagesFor(options.sourceLanguage || languageTag('en'))).forEach(message => {
+        const entry = poEntry(message, translations.get(message.key), targetForms);
+        const previousEntry = previous.get(message.key);
+        if (!entry) {
+            (options.skipped || (() => undefined))(message);
+        } else if (previousEntry) {
+            entries.push({
+                ...entry,
+                translatorComments: previousEntry.translatorComments,
+                flags: previousEntry.flags.filter(flag => entry.flags.indexOf(flag) < 0).concat(entry.flags)
+            });
+        } else {
+            entries.push(entry);
+        }
+    });
+    return entries;
+}
+
+/**
+ * Exports the default messages of a translator as gettext template (POT). The message keys are used as `msgctxt`.
+ *
+ * [[plural]]s become entries with `msgid_plural`. Their `one` case is used as `msgid` and their `other` case as
+ * `msgid_plural`. As gettext only knows about the CLDR plural categories of the target language, a `zero` case is only
+ * exported for languages having that category (e.g. Arabic).
+ *
+ * @param translator the translator to export.
+ * @param options the export options.
+ * @returns the template to be written using [[writePo]].
+ */
+export function potFile<M extends Messages>(translator: Translator<M>, options: PoOptions = {}): PoFile {
+    return {
+        headers: {
+            'Content-Type': 'text/plain; charset=UTF-8',
+            'Content-Transfer-Encoding': '8bit',
+            'Plural-Forms': 'nplurals=INTEGER; plural=EXPRESSION;'
+        },
+        entries: poEntries(translator, undefined, options)
+    };
+}
+
+/**
+ * Exports the default messages of a translator like [[potFile]] together with the translations provided for exactly
+ * the target language. The `msgstr[n]` of plural entries are the cases of the target language's
+ * [[gettextPluralForms]].
+ *
+ * @param translator the translator to export.
+ * @param language the target language.
+ * @param options the export options.
+ * @returns the file to be written using [[writePo]].
+ * @throws an exception if the plural forms of the target language are unknown and not passed as option.
+ */
+export function poFile<M extends Messages>(translator: Translator<M>, language: LanguageTag,
+                                           options: PoOptions = {}): PoFile {
+    return {
+        headers: {
+            'Language': language.tag,
+            'Content-Type': 'text/plain; charset=UTF-8',
+            'Content-Transfer-Encoding': '8bit',
+            'Plural-Forms': pluralFormsFor(language, options).expression
+        },
+        entries: poEntries(translator, language, options)
+    };
+}
+
+function quotePo(text: string): string {
+    return '"' + text
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\t/g, '\\t')
+        .replace(/\n/g, '\\n') + '"';
+}
+
+function writeString(keyword: string, text: string): string {
+    const lines = text.match(/[^\n]*\n|[^\n]+$/g) || [];
+    return lines.length > 1 ?
+        `${keyword} ""\n${lines.map(quotePo).join('\n')}\n` :
+        `${keyword} ${quotePo(text)}\n`;
+}
+
+function writeEntry(entry: PoEntry): string {
+    return entry.translatorComments.map(comment => `# ${comment}\n`).join('') +
+        entry.extractedComments.map(comment => `#. ${comment}\n`).join('') +
+        (entry.flags.length > 0 ? `#, ${entry.flags.join(', ')}\n` : '') +
+        (entry.context !== undefined ? writeString('msgctxt', entry.context) : '') +
+        writeString('msgid', entry.id) +
+        (entry.idPlural !== undefined ?
+            writeString('msgid_plural', entry.idPlural) +
+                entry.translations.map((translation, i) => writeString(`msgstr[${i}]`, translation)).join('') :
+            writeString('msgstr', entry.translations[0] || ''));
+}
+
+/**
+ * Serializes a [[PoFile]] in gettext PO format.
+ */
+export function writePo(file: PoFile): string {
+    const header = Object.keys(file.headers).map(name => `${name}: ${file.headers[name]}\n`).join('');
+    return [writeString('msgid', '') + writeString('msgstr', header)]
+        .concat(file.entries.map(writeEntry))
+        .join('\n');
+}
+
+function unquotePo(text: string, line: number): string {
+    if (!/^"([^"\\]|\\.)*"$/.test(text)) {
+        throw `Invalid PO file at line ${line}: expected a quoted string but found ${text}`;
+    }
+    return text.slice(1, -1).replace(/\\(.)/g, (escape, c: string) =>
+        c === 'n' ? '\n' : c === 't' ? '\t' : c === 'r' ? '\r' : c);
+}
+
+interface EntryBuilder {
+    translatorComments: string[];
+    extractedComments: string[];
+    flags: string[];
+    context?: string;
+    id?: string;
+    idPlural?: string;
+    translations: string[];
+}
+
+function emptyEntry(): EntryBuilder {
+    return {translatorComments: [], extractedComments: [], flags: [], translations: []};
+}
+
+/**
+ * Parses a gettext PO or POT file. Obsolete entries (`#~`) are ignored.
+ *
+ * @param po the contents of the file.
+ * @returns the parsed file.
+ * @throws an exception if the file is malformed.
+ */
+export function parsePo(po: string): PoFile {
+    const entries: PoEntry[] = [];
+    let entry = emptyEntry();
+    let append: ((text: string) => void) | undefined;
+
+    function finish(): void {
+        if (entry.id !== undefined) {
+            entries.push({...entry, id: entry.id});
+        }
+        entry = emptyEntry();
+        append = undefined;
+    }
+
+    po.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        const lineNumber = index + 1;
+        const keyword = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+(.*)$/.exec(line);
+        if (line === '' || line.substr(0, 2) === '#~') {
+            return;
+        } else if (line[0] === '#') {
+            if (entry.id !== undefined) {
+                finish();
+            }
+            const comment = line.substr(2).trim();
+            if (line[1] === ',') {
+                entry.flags.push(...comment.split(',').map(flag => flag.trim()).filter(flag => flag !== ''));
+            } else if (line[1] === '.') {
+                entry.extractedComments.push(comment);
+            } else if (line[1] === ' ' || line.length === 1) {
+                entry.translatorComments.push(line.substr(2));
+            }
+        } else if (keyword) {
+            const text = unquotePo(keyword[3], lineNumber);
+            const field = keyword[1].replace(/\[.*$/, '');
+            if ((field === 'msgctxt' || field === 'msgid') && entry.id !== undefined) {
+                finish();
+            }
+            if (field === 'msgctxt') {
+                entry.context = text;
+                append = t => entry.context += t;
+            } else if (field === 'msgid') {
+                entry.id = text;
+                append = t => entry.id += t;
+            } else if (field === 'msgid_plural') {
+                entry.idPlural = text;
+                append = t => entry.idPlural += t;
+            } else {
+                const i = keyword[2] !== undefined ? parseInt(keyword[2], 10) : 0;
+                entry.translations[i] = text;
+                append = t => entry.translations[i] += t;
+            }
+        } else if (line[0] === '"' && append) {
+            append(unquotePo(line, lineNumber));
+        } else {
+            throw `Invalid PO file at line ${lineNumber}: ${line}`;
+        }
+    });
+    finish();
+
+    const headerEntry = entries.filter(e => e.id === '' && e.context === undefined)[0];
+    const headers: { [name: string]: string } = {};
+    if (headerEntry) {
+        (headerEntry.translations[0] || '').split('\n').forEach(header => {
+            const separator = header.indexOf(':');
+            if (separator > 0) {
+                headers[header.substr(0, separator).trim()] = header.substr(separator + 1).trim();
+            }
+        });
+    }
+    return {headers, entries: entries.filter(e => e !== headerEntry)};
+}
+
+function setResource(resources: ResourceMessages, key: string, value: string | ResourceMessages): void {
+    const path = key.split('.');
+    let namespace = resources;
+    path.slice(0, -1).forEach(name => {
+        if (typeof namespace[name] !== 'object') {
+            namespace[name] = {};
+        }
+        namespace = namespace[name] as ResourceMessages;
+    });
+    namespace[path[path.length - 1]] = value;
+}
+
+/**
+ * Converts the translated entries of a PO file to [[ResourceMessages]]. Plural entries become objects mapping the
+ * CLDR plural categories to the messages (see [[pluralFormat]]). Entries without context, untranslated and `fuzzy`
+ * entries are omitted.
+ *
+ * @param file the PO file.
+ * @param language the language of the file.
+ * @param options the plural forms if they are not known for the language.
+ * @returns the resource messages.
+ */
+export function poResources(file: PoFile, language: LanguageTag, options: PoOptions = {}): ResourceMessages {
+    const resources: ResourceMessages = {};
+    file.entries
+        .filter(entry => entry.context !== undefined && entry.flags.indexOf('fuzzy') < 0)
+        .filter(entry => entry.translations.some(translation => translation !== undefined && translation !== ''))
+        .forEach(entry => {
+            if (entry.idPlural === undefined) {
+                setResource(resources, entry.context!, entry.translations[0]);
+                return;
+            }
+            const categories = pluralFormsFor(language, options).categories;
+            if (entry.translations.length !== categories.length) {
+                throw `Entry ${entry.context} has ${entry.translations.length} plural forms but ${language.tag} has ` +
+                    categories.length;
+            }
+            const forms: ResourceMessages = {};
+            categories.forEach((category, i) => forms[category] = entry.translations[i]);
+            if (forms.other === undefined) {
+                forms.other = entry.translations[categories.length - 1];
+            }
+            setResource(resources, entry.context!, forms);
+        });
+    return resources;
+}
+
+/**
+ * Imports the translations of a PO file as partial translation of the messages of a translator.
+ *
+ * **Example:**
+ * ```typescript
+ * const file = parsePo(fs.readFileSync('TaskList.de.po', 'utf-8'));
+ * export default translator.partiallySupportingNested('de', poTranslation(translator, file));
+ * ```
+ *
+ * @param translator the translator providing the default messages.
+ * @param file the PO file.
+ * @param language the language of the file. Defaults to the file's `Language` header.
+ * @param options the plural forms if they are not known for the language.
+ * @returns the translation to be passed to [[Translator.partiallySupportingNested]].
+ * @throws a [[ResourceError]] if the translations don't match the default messages (see [[resourceTranslation]]).
+ */
+export function poTranslation<M extends Messages>(translator: Translator<M>, file: PoFile,
+                                                  language?: LanguageTag,
+                                                  options: PoOptions = {}): LocalizedMessages<DeepPartial<M>> {
+    const tag = language || (file.headers.Language ? languageTag(file.headers.Language) : undefined);
+    if (!tag) {
+        throw 'The language of the PO file is unknown';
+    }
+    return resourceTranslation(translator, tag.tag, poResources(file, tag, options), {partial: true});
+}
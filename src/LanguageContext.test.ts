@@ -0,0 +1,65 @@
+import {
+    currentLanguage,
+    languageContext,
+    languageTag,
+    runWithLanguage,
+    setLanguageContext,
+    setPreferredLanguage,
+    synchronousLanguageContext,
+    translate
+} from '.';
+
+const en = languageTag('en');
+const de = languageTag('de');
+const fr = languageTag('fr');
+
+const translator = translate({welcome: 'Welcome'})
+    .supporting('de', {welcome: 'Willkommen'})
+    .supporting('fr', {welcome: 'Bienvenue'});
+
+function delay(): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, 1));
+}
+
+describe('runWithLanguage', () => {
+    beforeEach(() => setPreferredLanguage(en));
+
+    it('must resolve messages against the language of the active context', () => {
+        expect(translator.messages().welcome).toBe('Welcome');
+        runWithLanguage(de, () => {
+            expect(currentLanguage()).toBe(de);
+            expect(translator.messages().welcome).toBe('Willkommen');
+            runWithLanguage(fr, () => expect(translator.messages().welcome).toBe('Bienvenue'));
+            expect(translator.live().welcome).toBe('Willkommen');
+        });
+        expect(translator.messages().welcome).toBe('Welcome');
+    });
+
+    it('must propagate the language through asynchronous operations', () => {
+        const handle = (language: typeof de) => runWithLanguage(language, async () => {
+            await delay();
+            return translator.messages().welcome;
+        });
+        return Promise.all([handle(de), handle(fr)]).then(welcomes =>
+            expect(welcomes).toEqual(['Willkommen', 'Bienvenue']));
+    });
+
+    it('must provide the result of the executed function', () => {
+        expect(runWithLanguage(de, () => 42)).toBe(42);
+    });
+});
+
+describe('synchronousLanguageContext', () => {
+    const defaultContext = languageContext();
+    afterEach(() => setLanguageContext(defaultContext));
+
+    it('must only provide the language while the function is running', () => {
+        setLanguageContext(synchronousLanguageContext());
+        runWithLanguage(de, () => expect(translator.messages().welcome).toBe('Willkommen'));
+        expect(languageContext().current()).toBeUndefined();
+        expect(() => runWithLanguage(fr, () => {
+            throw 'failure';
+        })).toThrow();
+        expect(currentLanguage()).toBe(en);
+    });
+});
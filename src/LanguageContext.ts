@@ -0,0 +1,138 @@
+import { LanguageTag } from './LanguageTag';
+
+/**
+ * Provides a language scoped to a specific unit of work, e.g. a request handled by a server.
+ *
+ * While a function passed to [[run]] is executed, [[current]] provides the language passed to [[run]]. This allows
+ * [[MessageProvider.messages]] to resolve messages for the language of the current unit of work instead of the
+ * process wide [[preferredLanguage]].
+ */
+export interface LanguageContext {
+    /**
+     * @returns the language of the innermost active [[run]] call or `undefined` if there is none.
+     */
+    current(): LanguageTag | undefined;
+
+    /**
+     * Executes `fn` with `language` being the [[current]] language.
+     *
+     * @param language the language to be active while `fn` is running.
+     * @param fn the function to execute.
+     * @returns the result of `fn`.
+     */
+    run<T>(language: LanguageTag, fn: () => T): T;
+}
+
+/**
+ * The subset of node's `AsyncLocalStorage` API required by [[asyncLocalLanguageContext]].
+ */
+export interface AsyncLocalStore<T> {
+    getStore(): T | undefined;
+    run<R>(store: T, callback: () => R): R;
+}
+
+class AsyncLocalLanguageContext implements LanguageContext {
+    constructor(private readonly store: AsyncLocalStore<LanguageTag>) {}
+
+    /** @inheritDoc */
+    current(): LanguageTag | undefined {
+        return this.store.getStore();
+    }
+
+    /** @inheritDoc */
+    run<T>(language: LanguageTag, fn: () => T): T {
+        return this.store.run(language, fn);
+    }
+}
+
+class SynchronousLanguageContext implements LanguageContext {
+    private readonly languages: LanguageTag[] = [];
+
+    /** @inheritDoc */
+    current(): LanguageTag | undefined {
+        return this.languages[this.languages.length - 1];
+    }
+
+    /** @inheritDoc */
+    run<T>(language: LanguageTag, fn: () => T): T {
+        this.languages.push(language);
+        try {
+            return fn();
+        } finally {
+            this.languages.pop();
+        }
+    }
+}
+
+/**
+ * Creates a [[LanguageContext]] based on an async local store like node's `AsyncLocalStorage`. The language is
+ * propagated through asynchronous operations started inside [[LanguageContext.run]].
+ *
+ * @param store the store to keep the current language in.
+ * @returns the language context.
+ */
+export function asyncLocalLanguageContext(store: AsyncLocalStore<LanguageTag>): LanguageContext {
+    return new AsyncLocalLanguageContext(store);
+}
+
+/**
+ * Creates a [[LanguageContext]] that only keeps track of the language while the function passed to
+ * [[LanguageContext.run]] is executed synchronously. The language is _not_ propagated to asynchronous operations.
+ *
+ * @returns the language context.
+ */
+export function synchronousLanguageContext(): LanguageContext {
+    return new SynchronousLanguageContext();
+}
+
+function asyncLocalStorage(): { new(): AsyncLocalStore<LanguageTag> } | undefined {
+    try {
+        return require('async_hooks').AsyncLocalStorage;
+    } catch (e) {
+        /* istanbul ignore next: not reachable in test */
+        return undefined;
+    }
+}
+
+function defaultLanguageContext(): LanguageContext {
+    const AsyncLocalStorage = asyncLocalStorage();
+    return AsyncLocalStorage ?
+        asyncLocalLanguageContext(new AsyncLocalStorage()) :
+        /* istanbul ignore next: not reachable in test */ synchronousLanguageContext();
+}
+
+let _languageContext: LanguageContext = defaultLanguageContext();
+
+/**
+ * The [[LanguageContext]] used by [[runWithLanguage]] and [[MessageProvider.messages]].
+ *
+ * On node this is an [[asyncLocalLanguageContext]] based on `AsyncLocalStorage` by default, otherwise a
+ * [[synchronousLanguageContext]].
+ */
+export function languageContext(): LanguageContext {
+    return _languageContext;
+}
+
+/**
+ * Replaces the [[LanguageContext]] used by [[runWithLanguage]] and [[MessageProvider.messages]].
+ */
+export function setLanguageContext(context: LanguageContext): void {
+    _languageContext = context;
+}
+
+/**
+ * Executes `fn` with `language` being the language used by [[MessageProvider.messages]].
+ *
+ * **Example:**
+ * ```typescript
+ * app.get('/', (req, res) =>
+ *     runWithLanguage(languageTag(req.acceptsLanguages()[0]), () => res.send(render())));
+ * ```
+ *
+ * @param language the language to be used while `fn` is running.
+ * @param fn the function to execute.
+ * @returns the result of `fn`.
+ */
+export function runWithLanguage<T>(language: LanguageTag, fn: () => T): T {
+    return _languageContext.run(language, fn);
+}
@@ -143,4 +143,175 @@ describe('LanguageTag', () => {
     it('must throw an error when an invalid string is provided', () => {
         expect(() => languageTag('-abc')).toThrowError();
     });
+
+    it('must support numeric region subtags', () => {
+        const tag = languageTag('es-419');
+        expect(tag.tag).toBe('es-419');
+        expect(tag.language).toBe('es');
+        expect(tag.region).toBe('419');
+        expect(tag.parent()!.tag).toBe('es');
+    });
+
+    it('must support multiple variant subtags', () => {
+        const tag = languageTag('sl-IT-rozaj-BISKE-1994');
+        expect(tag.tag).toBe('sl-IT-rozaj-biske-1994');
+        expect(tag.variants).toEqual(['rozaj', 'biske', '1994']);
+        expect(tag.variant).toBe('rozaj-biske-1994');
+        expect(tag.parent()!.tag).toBe('sl-IT-rozaj-biske');
+    });
+
+    it('must support multiple extensions and private use subtags', () => {
+        const tag = languageTag('de-DE-u-co-phonebk-T-en-x-Private-use');
+        expect(tag.tag).toBe('de-DE-u-co-phonebk-t-en-x-private-use');
+        expect(tag.extensions.get('u')).toEqual(['co', 'phonebk']);
+        expect(tag.extensions.get('t')).toEqual(['en']);
+        expect(tag.extensions.size).toBe(2);
+        expect(tag.privateUse).toEqual(['private', 'use']);
+        expect(tag.extension).toBe('u-co-phonebk-t-en-x-private-use');
+        expect(tag.parent()!.tag).toBe('de-DE');
+
+        expect(languageTag('en').extensions.size).toBe(0);
+        expect(languageTag('en').privateUse).toEqual([]);
+    });
+
+    it('must support grandfathered and private use tags', () => {
+        const klingon = languageTag('I-KLINGON');
+        expect(klingon.tag).toBe('i-klingon');
+        expect(klingon.language).toBe('i-klingon');
+        expect(klingon.irregular).toBe(true);
+        expect(klingon.parent()).toBeUndefined();
+
+        expect(languageTag('en-gb-oed').tag).toBe('en-GB-oed');
+        expect(languageTag('zh-min-nan').irregular).toBe(true);
+
+        const privateUse = languageTag('x-Whatever');
+        expect(privateUse.tag).toBe('x-whatever');
+        expect(privateUse.privateUse).toEqual(['whatever']);
+        expect(privateUse.irregular).toBe(true);
+
+        expect(languageTag('en-US').irregular).toBe(false);
+    });
+
+    it('must provide tags accepted by Intl for irregular tags', () => {
+        expect(languageTag('i-klingon').intlTag).toBe('tlh');
+        expect(languageTag('zh-min-nan').intlTag).toBe('nan');
+        expect(languageTag('en-GB-oed').intlTag).toBe('en-GB-oxendict');
+        expect(languageTag('i-default').intlTag).toBe('und');
+        expect(languageTag('x-whatever').intlTag).toBe('und');
+        expect(languageTag('de-CH-x-whatever').intlTag).toBe('de-CH-x-whatever');
+    });
+
+    it('must provide the keywords of the unicode locale extension', () => {
+        expect(languageTag('de-DE-u-attr-nu-arab-ca-islamic-civil-x-u-hc-h23').unicodeKeywords).toEqual({
+            numberingSystem: 'arab',
+            calendar: 'islamic-civil'
+        });
+        expect(languageTag('en-US-u-hc-h23-co-phonebk-cu-eur-fw-mon').unicodeKeywords).toEqual({
+            hourCycle: 'h23',
+            collation: 'phonebk',
+            currency: 'EUR',
+            firstDayOfWeek: 'mon'
+        });
+        expect(languageTag('en-u-hc-h25-fw-xyz-cu-euro').unicodeKeywords).toEqual({});
+        expect(languageTag('en-t-nu-arab').unicodeKeywords).toEqual({});
+    });
+
+    it('must add likely subtags', () => {
+        expect(languageTag('en').maximize().tag).toBe('en-Latn-US');
+        expect(languageTag('zh-TW').maximize().tag).toBe('zh-Hant-TW');
+        expect(languageTag('zh-Hant').maximize().tag).toBe('zh-Hant-TW');
+        expect(languageTag('sr-ME').maximize().tag).toBe('sr-Latn-ME');
+        expect(languageTag('sr-Latn').maximize().tag).toBe('sr-Latn-RS');
+        expect(languageTag('und-Cyrl').maximize().tag).toBe('ru-Cyrl-RU');
+        expect(languageTag('de-CH-1996-x-foo').maximize().tag).toBe('de-Latn-CH-1996-x-foo');
+        expect(languageTag('tlh').maximize().tag).toBe('tlh');
+        expect(languageTag('zh-gan').maximize().tag).toBe('zh-gan');
+    });
+
+    it('must remove likely subtags', () => {
+        expect(languageTag('en-Latn-US').minimize().tag).toBe('en');
+        expect(languageTag('zh-Hant-TW').minimize().tag).toBe('zh-TW');
+        expect(languageTag('zh-Hant-HK').minimize().tag).toBe('zh-HK');
+        expect(languageTag('zh-Hans').minimize().tag).toBe('zh');
+        expect(languageTag('sr-Latn-RS').minimize().tag).toBe('sr-Latn');
+        expect(languageTag('de-Latn-AT').minimize().tag).toBe('de-AT');
+        expect(languageTag('tlh-US').minimize().tag).toBe('tlh-US');
+    });
+
+    it('must follow the CLDR parent locales', () => {
+        const chain = (tag: string) => {
+            const tags: string[] = [];
+            for (let parent = languageTag(tag).parent(); parent; parent = parent.parent()) {
+                tags.push(parent.tag);
+            }
+            return tags;
+        };
+        expect(chain('en-AU')).toEqual(['en-001', 'en']);
+        expect(chain('en-CH')).toEqual(['en-150', 'en-001', 'en']);
+        expect(chain('es-MX-u-nu-latn')).toEqual(['es-MX', 'es-419', 'es']);
+        expect(chain('pt-AO')).toEqual(['pt-PT', 'pt']);
+        expect(chain('zh-TW')).toEqual(['zh-Hant']);
+        expect(chain('zh-Hant-MO')).toEqual(['zh-Hant-HK', 'zh-Hant']);
+        expect(chain('zh-Hans-SG')).toEqual(['zh-Hans', 'zh']);
+        expect(chain('sr-Latn-RS')).toEqual(['sr-Latn']);
+        expect(chain('sr-Cyrl-RS')).toEqual(['sr-Cyrl', 'sr']);
+        expect(chain('de-CH')).toEqual(['de']);
+    });
+
+    it('must pick the best matching language by likely subtags', () => {
+        const tags = (...values: string[]) => values.map(languageTag);
+        expect(languageTag('zh-TW').pickBestMatching(tags('zh', 'zh-Hant'))!.tag).toBe('zh-Hant');
+        expect(languageTag('zh-HK').pickBestMatching(tags('zh-Hans', 'zh-Hant-TW'))!.tag).toBe('zh-Hant-TW');
+        expect(languageTag('zh').pickBestMatching(tags('zh-Hant', 'zh-CN'))!.tag).toBe('zh-CN');
+        expect(languageTag('en-AU').pickBestMatching(tags('en', 'en-GB'))!.tag).toBe('en-GB');
+        expect(languageTag('en-US').pickBestMatching(tags('en-GB', 'en'))!.tag).toBe('en');
+        expect(languageTag('sr-RS').pickBestMatching(tags('sr-Latn', 'sr-Cyrl'))!.tag).toBe('sr-Cyrl');
+        expect(languageTag('sr-Latn').pickBestMatching(tags('hr', 'sr-RS'))).toBeUndefined();
+        expect(languageTag('de').pickBestMatching(tags('en', 'fr'))).toBeUndefined();
+    });
+
+    it('must calculate the distance according to the CLDR language matching', () => {
+        const distance = (desired: string, supported: string) => languageTag(desired).distance(languageTag(supported));
+        expect(distance('de-CH-1996', 'de-CH')).toBe(0);
+        expect(distance('en', 'en-Latn-US')).toBe(0);
+        expect(distance('no', 'nb')).toBe(1);
+        expect(distance('nb-NO', 'no')).toBe(1);
+        expect(distance('gsw', 'de')).toBe(8);
+        expect(distance('de', 'gsw')).toBe(84);
+        expect(distance('de-CH', 'de')).toBe(4);
+        expect(distance('es-419', 'es-MX')).toBe(4);
+        expect(distance('es-419', 'es-ES')).toBe(5);
+        expect(distance('en-AU', 'en-GB')).toBe(3);
+        expect(distance('en-AU', 'en')).toBe(5);
+        expect(distance('en-PR', 'en')).toBe(4);
+        expect(distance('zh-TW', 'zh')).toBe(23);
+        expect(distance('zh', 'zh-Hant')).toBe(19);
+        expect(distance('sr-Latn', 'sr')).toBe(50);
+        expect(distance('de', 'fr')).toBe(84);
+        expect(distance('sr-Latn', 'ja')).toBe(100);
+        expect(distance('tlh', 'tlh-US')).toBe(0);
+    });
+
+    it('must pick the closest language below the threshold', () => {
+        const tags = (...values: string[]) => values.map(languageTag);
+        expect(languageTag('es-MX').pickBestMatching(tags('es', 'es-419', 'es-AR'))!.tag).toBe('es-419');
+        expect(languageTag('es-CO').pickBestMatching(tags('es', 'es-AR'))!.tag).toBe('es-AR');
+        expect(languageTag('nb').pickBestMatching(tags('da', 'sv', 'no'))!.tag).toBe('no');
+        expect(languageTag('gsw-CH').pickBestMatching(tags('fr-CH', 'de'))!.tag).toBe('de');
+        expect(languageTag('de-AT').pickBestMatching(tags('de-DE', 'de-AT-1996'))!.tag).toBe('de-AT-1996');
+        expect(languageTag('zh-TW').pickBestMatching(tags('zh'), 20)).toBeUndefined();
+        expect(languageTag('sr-Latn').pickBestMatching(tags('sr'), 51)!.tag).toBe('sr');
+    });
+
+    it('must explain why a language tag is invalid', () => {
+        expect(() => languageTag('de--CH')).toThrow('Invalid language tag de--CH: empty subtag');
+        expect(() => languageTag('1de')).toThrow('Invalid language tag 1de: language subtag 1de must consist of ' +
+            '2 to 8 letters');
+        expect(() => languageTag('de-abcdefghi')).toThrow('subtag abcdefghi must consist of 1 to 8 letters or digits');
+        expect(() => languageTag('sl-rozaj-Rozaj')).toThrow('duplicate variant Rozaj');
+        expect(() => languageTag('de-u-co-U-nu')).toThrow('duplicate extension u');
+        expect(() => languageTag('de-u')).toThrow('extension singleton u must be followed by at least one subtag');
+        expect(() => languageTag('de-x')).toThrow('private use singleton x must be followed by at least one subtag');
+        expect(() => languageTag('de-CH-US')).toThrow('unexpected subtag US');
+    });
 });
\ No newline at end of file
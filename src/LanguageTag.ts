@@ -1,3 +1,15 @@
+import {
+    languageMatchRules,
+    likelySubtags,
+    MatchRule,
+    paradigmLocales,
+    parentLocales,
+    preferredRegions,
+    regionClusters,
+    scriptMatchRules
+} from './CldrData';
+import { displayName } from './DisplayNames';
+
 /**
  * A language tag as defined in [BCP-47](http://www.ietf.org/rfc/bcp/bcp47.txt).
  *
@@ -11,6 +23,13 @@ export interface LanguageTag {
      */
     readonly tag: string;
 
+    /**
+     * The tag passed to the `Intl` APIs: the [[tag]] itself unless it is [[irregular]], the preferred value of a
+     * grandfathered tag (e.g. `tlh` for `i-klingon`) or `und` for irregular tags without preferred value (e.g.
+     * `i-default` or `x-whatever`), which `Intl` rejects.
+     */
+    readonly intlTag: string;
+
     /**
      * The language of the tag (e.g. `en`).
      */
@@ -32,15 +51,48 @@ export interface LanguageTag {
     readonly region?: string;
 
     /**
-     * The variant subtag (e.g. `nedis` in `sl-nedis` or `sl-IT-nedis`).
+     * The variant subtags (e.g. `['rozaj', 'biske']` in `sl-rozaj-biske`).
+     */
+    readonly variants: string[];
+
+    /**
+     * The variant subtags joined by `-` (e.g. `nedis` in `sl-nedis` or `sl-IT-nedis`).
+     *
+     * @deprecated use [[variants]].
      */
     readonly variant?: string;
 
     /**
-     * The extension subtag (e.g. `u-co-phonebk` in `de-DE-u-co-phonebk`).
+     * The subtags of the extensions by their singleton (e.g. `u` → `['co', 'phonebk']` in `de-DE-u-co-phonebk`) in the
+     * order of the tag.
+     */
+    readonly extensions: ReadonlyMap<string, string[]>;
+
+    /**
+     * The private use subtags following the `x` singleton (e.g. `['twain']` in `en-US-x-twain`).
+     */
+    readonly privateUse: string[];
+
+    /**
+     * The extensions and private use subtags (e.g. `u-co-phonebk` in `de-DE-u-co-phonebk` or `x-twain` in
+     * `en-US-x-twain`).
+     *
+     * @deprecated use [[extensions]] and [[privateUse]].
      */
     readonly extension?: string;
 
+    /**
+     * The keywords of the Unicode locale extension `u` (e.g. `{numberingSystem: 'arab', calendar: 'islamic'}` for
+     * `de-DE-u-nu-arab-ca-islamic`), which are taken into account when formatting messages.
+     */
+    readonly unicodeKeywords: UnicodeLocaleKeywords;
+
+    /**
+     * `true` for grandfathered tags (e.g. `i-klingon` or `zh-min-nan`) and tags consisting of private use subtags only
+     * (e.g. `x-whatever`). These tags can't be split into subtags, thus their [[language]] is the whole tag.
+     */
+    readonly irregular: boolean;
+
     /**
      * Checks whether this language matches the other one. Effectively only the [[language]] subtags are compared.
      *
@@ -58,17 +110,45 @@ export interface LanguageTag {
     matchesOneOf(others: LanguageTag[]): boolean
 
     /**
-     * Returns the next more generic language tag by omitting the most specific subtag.
+     * Returns the next more generic language tag following the
+     * [CLDR inheritance](https://www.unicode.org/reports/tr35/#Locale_Inheritance):
+     *
+     * - extensions and private use subtags are omitted first, then the variants one by one,
+     * - tags with a CLDR parent locale continue with that (e.g. `en-AU` → `en-001` → `en` or `es-MX` → `es-419`),
+     * - a region implying another script than the language's default continues with that script (e.g. `zh-TW` →
+     *   `zh-Hant`),
+     * - a script other than the language's default has no parent (e.g. `zh-Hant` doesn't inherit from simplified
+     *   Chinese `zh`),
+     * - otherwise the most specific subtag is omitted.
+     *
      * @returns The next more generic language tag or `undefined` if this language tag has only a [[language]] subtag.
      */
     parent(): LanguageTag | undefined
 
+    /**
+     * Adds the likely script and region according to the CLDR likely subtags (e.g. `zh-TW` → `zh-Hant-TW` or
+     * `sr` → `sr-Cyrl-RS`). The bundled data covers the most widely used languages only.
+     *
+     * @returns the maximized tag or this tag if it is unknown.
+     */
+    maximize(): LanguageTag
+
+    /**
+     * Removes the script and region that would be added by [[maximize]] (e.g. `zh-Hant-TW` → `zh-TW` or
+     * `en-Latn-US` → `en`).
+     *
+     * @returns the minimized tag or this tag if it is unknown.
+     */
+    minimize(): LanguageTag
+
     /**
      * Calculates the equality among this and the provided language tag.
      *
      * You should not depend on the absolute value returned, instead the value is meant for picking the best matching
      * language tag from a list.
      *
+     * @deprecated use [[distance]], which knows about related languages and regions.
+     *
      * @param other the tag to check equality against
      * @returns equality between this and the other tag expressed as a value between `0` (language does not match) and
      *     `1` (all subtags match).
@@ -76,11 +156,107 @@ export interface LanguageTag {
     equality(other: LanguageTag): number
 
     /**
-     * Returns the language tag from the list that best matches this language tag.
+     * Calculates the distance of this desired language to the other, supported language according to the
+     * [CLDR language matching](https://www.unicode.org/reports/tr35/tr35.html#LanguageMatching). The [[maximize]]d
+     * tags are compared subtag by subtag:
+     *
+     * - different languages have a distance of `80` unless they are closely related (e.g. `1` for `no` → `nb` or `4`
+     *   for Swiss German `gsw` → `de`),
+     * - different scripts have a distance of `50` unless they are related (e.g. `19` for `zh-Hant` → `zh-Hans`),
+     * - different regions have a distance of `4`, or `5` for regions of different clusters of the language (e.g.
+     *   `es-419` is closer to `es-MX` than to `es-ES`).
+     *
+     * Variants and extensions are ignored. The distance may differ when swapping the tags, e.g. Swiss German speakers
+     * accept German but not vice versa.
+     *
+     * @param other the supported language.
+     * @returns the distance between `0` (equal) and `100`. Languages with a distance of [[languageMatchThreshold]] or
+     *     more don't match.
+     */
+    distance(other: LanguageTag): number
+
+    /**
+     * Returns the language tag from the list that best matches this language tag, i.e. the tag with the lowest
+     * [[distance]]. Of tags with the same distance CLDR paradigm locales (e.g. `en-GB` or `es-419`) are preferred, then
+     * tags matching more subtags literally. Thus `zh-TW` prefers `zh-Hant` over `zh`, `en-AU` prefers `en-GB` over `en`
+     * and `es-MX` prefers `es-419` over `es`.
+     *
      * @param others the language tags to test.
+     * @param threshold the minimum distance of tags not matching. Defaults to [[languageMatchThreshold]].
      * @returns the best matching language tag or `undefined` if no one matches.
      */
-    pickBestMatching(others: LanguageTag[]): LanguageTag | undefined
+    pickBestMatching(others: LanguageTag[], threshold?: number): LanguageTag | undefined
+
+    /**
+     * Provides the name of this language including its script, region and variants, e.g. for a language switcher.
+     *
+     * **Example:**
+     * ```typescript
+     * languageTag('de-CH').displayName();                  // 'Deutsch (Schweiz)'
+     * languageTag('de-CH').displayName(languageTag('en')); // 'German (Switzerland)'
+     * ```
+     *
+     * The names are provided by `Intl.DisplayNames`. Where it isn't available, bundled names covering the most widely
+     * used languages in English and the languages' own names are used instead. Grandfathered and private use tags are
+     * named by their tag.
+     *
+     * @param inLanguage the language of the name. Defaults to this language.
+     * @returns the name of this language.
+     */
+    displayName(inLanguage?: LanguageTag): string
+}
+
+/**
+ * The minimum [[LanguageTag.distance]] of languages not matching, e.g. languages written in different scripts like
+ * `sr-Latn` and `sr-Cyrl`.
+ */
+export const languageMatchThreshold = 50;
+
+/**
+ * The hour cycles of the `hc` keyword: `h12` and `h11` use a 12 hour clock starting at 12 respectively 0, `h23` and
+ * `h24` use a 24 hour clock starting at 0 respectively 24.
+ */
+export type HourCycle = 'h11' | 'h12' | 'h23' | 'h24';
+
+/**
+ * The days of the week as used by the `fw` keyword.
+ */
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/**
+ * The keywords of the [Unicode locale extension](https://unicode.org/reports/tr35/#u_Extension) of a
+ * [[LanguageTag]], expressing the user's formatting preferences.
+ */
+export interface UnicodeLocaleKeywords {
+    /**
+     * The numbering system of the `nu` keyword (e.g. `arab` in `ar-u-nu-arab`).
+     */
+    readonly numberingSystem?: string;
+
+    /**
+     * The calendar of the `ca` keyword (e.g. `islamic-civil` in `ar-u-ca-islamic-civil`).
+     */
+    readonly calendar?: string;
+
+    /**
+     * The hour cycle of the `hc` keyword (e.g. `h23` in `en-u-hc-h23`).
+     */
+    readonly hourCycle?: HourCycle;
+
+    /**
+     * The collation of the `co` keyword (e.g. `phonebk` in `de-u-co-phonebk`).
+     */
+    readonly collation?: string;
+
+    /**
+     * The ISO 4217 currency code of the `cu` keyword (e.g. `EUR` in `en-u-cu-eur`).
+     */
+    readonly currency?: string;
+
+    /**
+     * The first day of the week of the `fw` keyword (e.g. `mon` in `en-US-u-fw-mon`).
+     */
+    readonly firstDayOfWeek?: Weekday;
 }
 
 /**
@@ -97,16 +273,223 @@ export function languageTag(tag: string): LanguageTag {
     return languageTags.fromString(tag);
 }
 
-/* tslint:disable */
-const pattern = new RegExp('^' +
-    '([a-z]{2,3})' + // language
-    '(-[a-z]{3})?' + // extended language
-    '(-[a-z]{4})?' + // script
-    '(-[a-z]{2}|[0-9]{3})?' + // region
-    '((?:-[a-z]{5,8})|(?:-[0-9][a-z0-9]{3}))?' + // variant
-    '(-[0-9a-z](?:-[a-z0-9]{1,8})+)?' + // extension
-    '$', 'i');
-/* tslint:enable */
+/**
+ * The subtags of a [[LanguageTag]].
+ */
+interface Subtags {
+    language: string;
+    extendedLanguage?: string;
+    script?: string;
+    region?: string;
+    variants: string[];
+    extensions: Array<[string, string[]]>;
+    privateUse: string[];
+    irregular: boolean;
+}
+
+/**
+ * The grandfathered tags of [RFC 5646](https://tools.ietf.org/html/rfc5646#section-2.2.8) in their canonical casing.
+ */
+const grandfatheredTags = [
+    'en-GB-oed', 'i-ami', 'i-bnn', 'i-default', 'i-enochian', 'i-hak', 'i-klingon', 'i-lux', 'i-mingo', 'i-navajo',
+    'i-pwn', 'i-tao', 'i-tay', 'i-tsu', 'sgn-BE-FR', 'sgn-BE-NL', 'sgn-CH-DE',
+    'art-lojban', 'cel-gaulish', 'no-bok', 'no-nyn', 'zh-guoyu', 'zh-hakka', 'zh-min', 'zh-min-nan', 'zh-xiang'
+];
+
+/**
+ * The preferred values of the grandfathered tags according to the
+ * [IANA Language Subtag Registry](https://www.iana.org/assignments/language-subtag-registry).
+ */
+const grandfatheredPreferredValues: { [tag: string]: string } = {
+    'en-GB-oed': 'en-GB-oxendict', 'i-ami': 'ami', 'i-bnn': 'bnn', 'i-hak': 'hak', 'i-klingon': 'tlh', 'i-lux': 'lb',
+    'i-navajo': 'nv', 'i-pwn': 'pwn', 'i-tao': 'tao', 'i-tay': 'tay', 'i-tsu': 'tsu', 'sgn-BE-FR': 'sfb',
+    'sgn-BE-NL': 'vgt', 'sgn-CH-DE': 'sgg', 'art-lojban': 'jbo', 'no-bok': 'nb', 'no-nyn': 'nn', 'zh-guoyu': 'cmn',
+    'zh-hakka': 'hak', 'zh-min-nan': 'nan', 'zh-xiang': 'hsn'
+};
+
+/**
+ * Parses a language tag according to the `Language-Tag` production of
+ * [RFC 5646](https://tools.ietf.org/html/rfc5646#section-2.1).
+ */
+function parseSubtags(tag: string): Subtags {
+    const fail = (reason: string): never => {
+        throw `Invalid language tag ${tag}: ${reason}`;
+    };
+    const grandfathered = grandfatheredTags.filter(t => t.toLowerCase() === tag.toLowerCase())[0];
+    if (grandfathered) {
+        return {language: grandfathered, variants: [], extensions: [], privateUse: [], irregular: true};
+    }
+    const subtags = tag.split('-');
+    subtags.filter(subtag => !/^[a-z0-9]{1,8}$/i.test(subtag))
+        .forEach(subtag => fail(subtag === '' ? 'empty subtag' :
+            `subtag ${subtag} must consist of 1 to 8 letters or digits`));
+    let i = 0;
+    const next = (pattern: RegExp) => i < subtags.length && pattern.test(subtags[i]) ? subtags[i++] : undefined;
+
+    const parsePrivateUse = () => {
+        if (i === subtags.length) {
+            fail('private use singleton x must be followed by at least one subtag');
+        }
+        return subtags.splice(i).map(subtag => subtag.toLowerCase());
+    };
+
+    if (next(/^x$/i)) {
+        return {
+            language: tag.toLowerCase(),
+            variants: [],
+            extensions: [],
+            privateUse: parsePrivateUse(),
+            irregular: true
+        };
+    }
+    const language = next(/^[a-z]{2,8}$/i) || fail(`language subtag ${subtags[0]} must consist of 2 to 8 letters`);
+    const extendedLanguages: string[] = [];
+    let extendedLanguage = language.length <= 3 ? next(/^[a-z]{3}$/i) : undefined;
+    while (extendedLanguage) {
+        extendedLanguages.push(extendedLanguage);
+        extendedLanguage = extendedLanguages.length < 3 ? next(/^[a-z]{3}$/i) : undefined;
+    }
+    const script = next(/^[a-z]{4}$/i);
+    const region = next(/^([a-z]{2}|[0-9]{3})$/i);
+    const variants: string[] = [];
+    let variant = next(/^([a-z0-9]{5,8}|[0-9][a-z0-9]{3})$/i);
+    while (variant) {
+        if (variants.indexOf(variant.toLowerCase()) >= 0) {
+            fail(`duplicate variant ${variant}`);
+        }
+        variants.push(variant.toLowerCase());
+        variant = next(/^([a-z0-9]{5,8}|[0-9][a-z0-9]{3})$/i);
+    }
+    const extensions: Array<[string, string[]]> = [];
+    let singleton = next(/^[0-9a-wyz]$/i);
+    while (singleton) {
+        const key = singleton.toLowerCase();
+        if (extensions.some(([s]) => s === key)) {
+            fail(`duplicate extension ${key}`);
+        }
+        const values: string[] = [];
+        let value = next(/^[a-z0-9]{2,8}$/i);
+        while (value) {
+            values.push(value.toLowerCase());
+            value = next(/^[a-z0-9]{2,8}$/i);
+        }
+        if (values.length === 0) {
+            fail(`extension singleton ${key} must be followed by at least one subtag of 2 to 8 characters`);
+        }
+        extensions.push([key, values]);
+        singleton = next(/^[0-9a-wyz]$/i);
+    }
+    const privateUse = next(/^x$/i) ? parsePrivateUse() : [];
+    if (i < subtags.length) {
+        fail(`unexpected subtag ${subtags[i]}`);
+    }
+    return {
+        language: language.toLowerCase(),
+        extendedLanguage: extendedLanguages.length > 0 ? extendedLanguages.join('-').toLowerCase() : undefined,
+        script: script ? script[0].toUpperCase() + script.substr(1).toLowerCase() : undefined,
+        region: region ? region.toUpperCase() : undefined,
+        variants,
+        extensions,
+        privateUse,
+        irregular: false
+    };
+}
+
+function extensionSubtags(subtags: Subtags): string[] {
+    return ([] as string[])
+        .concat(...subtags.extensions.map(([singleton, values]) => [singleton].concat(values)))
+        .concat(subtags.privateUse.length > 0 ? ['x'].concat(subtags.privateUse) : []);
+}
+
+/**
+ * Looks up the likely language, script and region of the subtags. Tags with extended language subtags and irregular
+ * tags aren't covered by the likely subtags.
+ */
+function likely(subtags: Subtags): { language: string, script: string, region: string } | undefined {
+    if (subtags.irregular || subtags.extendedLanguage) {
+        return undefined;
+    }
+    const {language, script, region} = subtags;
+    const candidates = [
+        script && region ? `${language}-${script}-${region}` : undefined,
+        region ? `${language}-${region}` : undefined,
+        script ? `${language}-${script}` : undefined,
+        language
+    ];
+    const match = candidates.filter(candidate => candidate && likelySubtags[candidate])[0];
+    if (!match) {
+        return undefined;
+    }
+    const [likelyLanguage, likelyScript, likelyRegion] = likelySubtags[match].split('-');
+    return {language: likelyLanguage, script: likelyScript, region: likelyRegion};
+}
+
+function defaultScript(language: string): string | undefined {
+    const subtags = likelySubtags[language];
+    return subtags ? subtags.split('-')[1] : undefined;
+}
+
+function ruleDistance(rules: MatchRule[], desired: string, supported: string, defaultDistance: number): number {
+    const rule = rules.filter(r => (r.desired === desired && r.supported === supported) ||
+        (!r.oneway && r.desired === supported && r.supported === desired))[0];
+    return rule ? rule.distance : defaultDistance;
+}
+
+function regionDistance(language: string, desired: string, supported: string): number {
+    const cluster = regionClusters[language];
+    if (!cluster) {
+        return 4;
+    }
+    const desiredInCluster = cluster.indexOf(desired) >= 0;
+    if (!desiredInCluster && preferredRegions[language] === supported) {
+        return 3;
+    }
+    return desiredInCluster === (cluster.indexOf(supported) >= 0) ? 4 : 5;
+}
+
+const hourCycles = ['h11', 'h12', 'h23', 'h24'];
+const weekdays = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Extracts the keywords of the `u` extension. Attributes preceding the first key and keywords with unknown or invalid
+ * values are ignored.
+ */
+function unicodeKeywords(subtags: Subtags): UnicodeLocaleKeywords {
+    const extension = subtags.extensions.filter(([singleton]) => singleton === 'u')[0];
+    const keywords: { [key: string]: string } = {};
+    let key: string | undefined;
+    (extension ? extension[1] : []).forEach(subtag => {
+        if (subtag.length === 2) {
+            key = subtag;
+            keywords[key] = '';
+        } else if (key) {
+            keywords[key] = keywords[key] ? `${keywords[key]}-${subtag}` : subtag;
+        }
+    });
+    const value = (k: string) => keywords[k] || undefined;
+    return {
+        numberingSystem: value('nu'),
+        calendar: value('ca'),
+        hourCycle: hourCycles.indexOf(keywords.hc) >= 0 ? keywords.hc as HourCycle : undefined,
+        collation: value('co'),
+        currency: /^[a-z]{3}$/.test(keywords.cu) ? keywords.cu.toUpperCase() : undefined,
+        firstDayOfWeek: weekdays.indexOf(keywords.fw) >= 0 ? keywords.fw as Weekday : undefined
+    };
+}
+
+function formatSubtags(subtags: Subtags): string {
+    if (subtags.irregular) {
+        return subtags.language;
+    }
+    const optional = (subtag: string | undefined) => subtag ? [subtag] : [];
+    return [subtags.language]
+        .concat(optional(subtags.extendedLanguage))
+        .concat(optional(subtags.script))
+        .concat(optional(subtags.region))
+        .concat(subtags.variants)
+        .concat(extensionSubtags(subtags))
+        .join('-');
+}
 
 const languageTags = new class LanguageTags {
     private readonly instances: Map<string, LanguageTag> = new Map();
@@ -114,98 +497,52 @@ const languageTags = new class LanguageTags {
     fromString(tag: string): LanguageTag {
         const unifiedTag = tag.toLowerCase();
         const existing = this.instances.get(unifiedTag);
-        return existing ? existing : this.createFromString(unifiedTag);
+        return existing ? existing : this.fromSubtags(parseSubtags(tag));
     }
 
-    fromSubTags(
-        language: string,
-        extendedLanguage?: string,
-        script?: string,
-        region?: string,
-        variant?: string,
-        extension?: string
-    ): LanguageTag {
-
-        function unifiedSubtag(t: string | undefined): string {
-            return t ? `-${t.toLowerCase()}` : '';
-        }
-
-        const unifiedTag = language.toLowerCase() +
-            unifiedSubtag(extendedLanguage) +
-            unifiedSubtag(script) +
-            unifiedSubtag(region) +
-            unifiedSubtag(variant) +
-            unifiedSubtag(extension);
+    fromSubtags(subtags: Subtags): LanguageTag {
+        const unifiedTag = formatSubtags(subtags).toLowerCase();
         const existing = this.instances.get(unifiedTag);
         if (existing) {
             return existing
         } else {
-            const tag = new LanguageTagImpl(language, extendedLanguage, script, region, variant, extension);
+            const tag = new LanguageTagImpl(subtags);
             this.instances.set(unifiedTag, tag);
             return tag;
         }
     }
-
-    private createFromString(unifiedTag: string): LanguageTag {
-        const match = pattern.exec(unifiedTag);
-        if (!match) {
-            throw `Invalid language tag ${unifiedTag}`;
-        }
-
-        function group(m: Array<string>, n: number): string|undefined {
-            return m[n] ? m[n].substr(1) : undefined;
-        }
-
-        const language = match[1];
-        const extendedLanguage = group(match, 2);
-        const script = group(match, 3);
-        const region = group(match, 4);
-        const variant = group(match, 5);
-        const extension = group(match, 6);
-        const instance =  new LanguageTagImpl(language, extendedLanguage, script, region, variant, extension);
-        this.instances.set(unifiedTag, instance);
-        return instance;
-    }
 };
 
 class LanguageTagImpl implements LanguageTag {
     readonly tag: string;
+    readonly intlTag: string;
     readonly language: string;
     readonly extendedLanguage?: string;
     readonly script?: string;
     readonly region?: string;
+    readonly variants: string[];
     readonly variant?: string;
+    readonly extensions: ReadonlyMap<string, string[]>;
+    readonly privateUse: string[];
     readonly extension?: string;
-
-    constructor(
-        language: string,
-        extendedLanguage?: string,
-        script?: string,
-        region?: string,
-        variant?: string,
-        extension?: string
-    ) {
-        function transform(t: string | undefined, f: (x: string) => string): string | undefined {
-            return t ? f(t) : undefined;
-        }
-
-        this.language = language.toLowerCase();
-        this.extendedLanguage = transform(extendedLanguage, x => x.toLowerCase());
-        this.script = transform(script, x => x[0].toUpperCase() + x.substr(1).toLowerCase());
-        this.region = transform(region, x => x.toUpperCase());
-        this.variant = transform(variant, x => x.toLowerCase());
-        this.extension = transform(extension, x => x.toLowerCase());
-
-        function subtag(t: string | undefined): string {
-            return t ? `-${t}` : '';
-        }
-
-        this.tag = language.toLowerCase() +
-            subtag(this.extendedLanguage) +
-            subtag(this.script) +
-            subtag(this.region) +
-            subtag(this.variant) +
-            subtag(this.extension);
+    readonly unicodeKeywords: UnicodeLocaleKeywords;
+    readonly irregular: boolean;
+
+    constructor(private readonly subtags: Subtags) {
+        this.language = subtags.language;
+        this.extendedLanguage = subtags.extendedLanguage;
+        this.script = subtags.script;
+        this.region = subtags.region;
+        this.variants = subtags.variants.slice();
+        this.variant = subtags.variants.length > 0 ? subtags.variants.join('-') : undefined;
+        this.extensions = new Map(subtags.extensions.map(([singleton, values]): [string, string[]] =>
+            [singleton, values.slice()]));
+        this.privateUse = subtags.privateUse.slice();
+        this.irregular = subtags.irregular;
+        this.extension = extensionSubtags(subtags).join('-') || undefined;
+        this.unicodeKeywords = unicodeKeywords(subtags);
+        this.tag = formatSubtags(subtags);
+        this.intlTag = subtags.irregular ? grandfatheredPreferredValues[this.tag] || 'und' : this.tag;
     }
 
     /** @inheritDoc */
@@ -220,21 +557,58 @@ class LanguageTagImpl implements LanguageTag {
 
     /** @inheritDoc */
     parent(): LanguageTag | undefined {
-        if (this.extension) {
-            return this.withoutExtension();
-        } else if (this.variant) {
-            return this.withoutVariant();
-        } else if (this.region) {
-            return this.withoutRegion();
-        } else if (this.script) {
-            return this.withoutScript();
-        } else if (this.extendedLanguage) {
-            return this.withoutExtendedLanguage();
+        const subtags = this.subtags;
+        const likelyTags = likely(subtags);
+        const languageScript = subtags.extendedLanguage ? undefined : defaultScript(subtags.language);
+        if (subtags.irregular) {
+            return undefined;
+        } else if (subtags.extensions.length > 0 || subtags.privateUse.length > 0) {
+            return languageTags.fromSubtags({...subtags, extensions: [], privateUse: []});
+        } else if (subtags.variants.length > 0) {
+            return languageTags.fromSubtags({...subtags, variants: subtags.variants.slice(0, -1)});
+        } else if (parentLocales[this.tag]) {
+            return languageTag(parentLocales[this.tag]);
+        } else if (subtags.region) {
+            const script = subtags.script ||
+                (likelyTags && likelyTags.script !== languageScript ? likelyTags.script : undefined);
+            return languageTags.fromSubtags({...subtags, script, region: undefined});
+        } else if (subtags.script && languageScript && subtags.script !== languageScript) {
+            return undefined;
+        } else if (subtags.script) {
+            return languageTags.fromSubtags({...subtags, script: undefined});
+        } else if (subtags.extendedLanguage) {
+            return languageTags.fromSubtags({...subtags, extendedLanguage: undefined});
         } else {
             return undefined;
         }
     }
 
+    /** @inheritDoc */
+    maximize(): LanguageTag {
+        const likelyTags = likely(this.subtags);
+        return likelyTags ? languageTags.fromSubtags({
+            ...this.subtags,
+            language: likelyTags.language,
+            script: this.script || likelyTags.script,
+            region: this.region || likelyTags.region
+        }) : this;
+    }
+
+    /** @inheritDoc */
+    minimize(): LanguageTag {
+        const maximized = this.maximize();
+        if (!likely(this.subtags)) {
+            return this;
+        }
+        const candidates = [
+            {script: undefined, region: undefined},
+            {script: undefined, region: maximized.region},
+            {script: maximized.script, region: undefined}
+        ].map(({script, region}) =>
+            languageTags.fromSubtags({...this.subtags, language: maximized.language, script, region}));
+        return candidates.filter(candidate => candidate.maximize() === maximized)[0] || maximized;
+    }
+
     /** @inheritDoc */
     equality(other: LanguageTag): number {
         if (this.language !== other.language) {
@@ -265,40 +639,47 @@ class LanguageTagImpl implements LanguageTag {
     }
 
     /** @inheritDoc */
-    pickBestMatching(others: LanguageTag[]): LanguageTag | undefined {
-        interface Match { equality: number, other?: LanguageTag }
-        let bestEquality: Match = {
-            equality: 0
-        };
-        others.forEach(other => {
-            const equality = this.equality(other);
-            if (equality > bestEquality.equality) {
-                bestEquality = {
-                    equality: equality,
-                    other: other
-                };
-            }
-        });
-        return bestEquality.other;
-    }
-
-    private withoutExtension(): LanguageTag {
-        return languageTags.fromSubTags(this.language, this.extendedLanguage, this.script, this.region, this.variant);
-    }
-
-    private withoutVariant(): LanguageTag {
-        return languageTags.fromSubTags(this.language, this.extendedLanguage, this.script, this.region);
-    }
-
-    private withoutRegion(): LanguageTag {
-        return languageTags.fromSubTags(this.language, this.extendedLanguage, this.script);
+    distance(other: LanguageTag): number {
+        if (this === other) {
+            return 0;
+        }
+        const desired = this.maximize();
+        const supported = other.maximize();
+        const languageDistance = desired.language === supported.language ? 0 :
+            ruleDistance(languageMatchRules, desired.language, supported.language, 80);
+        const desiredScript = `${desired.language}-${desired.script}`;
+        const supportedScript = `${supported.language}-${supported.script}`;
+        const scriptDistance = desired.script === supported.script ? 0 :
+            ruleDistance(scriptMatchRules, desiredScript, supportedScript, 50);
+        const regionsDistance = desired.region === supported.region || !desired.region || !supported.region ? 0 :
+            regionDistance(supported.language, desired.region, supported.region);
+        return Math.min(100, languageDistance + scriptDistance + regionsDistance);
     }
 
-    private withoutScript(): LanguageTag {
-        return languageTags.fromSubTags(this.language, this.extendedLanguage);
+    /** @inheritDoc */
+    displayName(inLanguage: LanguageTag = this): string {
+        return displayName(this, inLanguage);
     }
 
-    private withoutExtendedLanguage(): LanguageTag {
-        return languageTags.fromSubTags(this.language);
+    /** @inheritDoc */
+    pickBestMatching(others: LanguageTag[], threshold: number = languageMatchThreshold): LanguageTag | undefined {
+        interface Match { distance: number, paradigm: boolean, equality: number, other: LanguageTag }
+        const isBetter = (match: Match, best: Match) =>
+            match.distance !== best.distance ? match.distance < best.distance :
+            match.paradigm !== best.paradigm ? match.paradigm :
+            match.equality > best.equality;
+        let bestMatch: Match | undefined;
+        others.forEach(other => {
+            const match: Match = {
+                distance: this.distance(other),
+                paradigm: paradigmLocales.indexOf(other.maximize().tag) >= 0,
+                equality: this.equality(other),
+                other: other
+            };
+            if (match.distance < threshold && (!bestMatch || isBetter(match, bestMatch))) {
+                bestMatch = match;
+            }
+        });
+        return bestMatch ? bestMatch.other : undefined;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,66 @@
+import { checkArguments, checkTags, messageArguments, messageTags } from '.';
+
+describe('messageArguments', () => {
+    it('must infer the types of all referenced arguments', () => {
+        expect(messageArguments('Hello {name}, it is {d, date, short} {t, time} and {n, number, #.#}')).toEqual({
+            name: 'string',
+            d: 'date',
+            t: 'date',
+            n: 'number'
+        });
+    });
+
+    it('must infer the types of arguments nested in plurals and selects', () => {
+        expect(messageArguments(
+            '{gender, select, female {{count, plural, one {# task for {name}} other {# tasks}}} ' +
+            'other {{rank, selectordinal, one {#st} other {#th}}}}')).toEqual({
+            gender: 'string',
+            count: 'number',
+            name: 'string',
+            rank: 'number'
+        });
+    });
+
+    it('must prefer the more specific type for arguments used multiple times', () => {
+        expect(messageArguments('{n} {n, plural, other {{n} items}}')).toEqual({n: 'number'});
+    });
+
+    it('must reject arguments used with conflicting types', () => {
+        expect(() => messageArguments('{x, number} {x, date}')).toThrow();
+    });
+
+    it('must provide no arguments for plain messages', () => {
+        expect(messageArguments('Hello world')).toEqual({});
+    });
+});
+
+describe('checkArguments', () => {
+    it('must accept matching arguments', () => {
+        checkArguments('{name} has {n, number} tasks', {name: 'string', n: 'number'});
+        checkArguments('{n} tasks', {n: 'number'});
+    });
+
+    it('must report all mismatches', () => {
+        expect(() => checkArguments('{name} has {n, number} tasks due {d, date}', {n: 'date', d: 'date', x: 'string'}))
+            .toThrow(/"name" is not a declared argument.*"n" is declared as date but used as number.*"x" is declared/);
+    });
+});
+
+describe('messageTags', () => {
+    it('must find all tags including the tags of plural and select cases', () => {
+        expect(messageTags('Read the <link>terms</link> of <b>{company}</b>')).toEqual(['link', 'b']);
+        expect(messageTags('{n, plural, one {<b>#</b> task} other {<i>#</i> tasks<br/>}}')).toEqual(['b', 'i', 'br']);
+        expect(messageTags('{n, number} < {max, number}')).toEqual([]);
+    });
+});
+
+describe('checkTags', () => {
+    it('must accept matching tags', () => {
+        checkTags('<b>Hello</b> <i>{name}</i>', ['i', 'b']);
+    });
+
+    it('must report all mismatches', () => {
+        expect(() => checkTags('<b>Hello</b> <i>{name}</i>', ['b', 'link']))
+            .toThrow(/<i> is not a declared tag, <link> is declared but not used/);
+    });
+});
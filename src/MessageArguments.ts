@@ -0,0 +1,199 @@
+import { ArgumentElement, Element, parse } from 'intl-messageformat-parser';
+import { MessageCache } from './MessageCache';
+
+/**
+ * Maps the names of the [[ArgumentType]]s to the types of the values expected for them.
+ */
+export interface ArgumentValues {
+    string: string;
+    number: number;
+    date: Date;
+    list: string[];
+}
+
+/**
+ * The type of an argument referenced by a message:
+ *
+ * - `string` for simple arguments like `{name}` and arguments of `select`s,
+ * - `number` for `number`, `plural` and `selectordinal` arguments,
+ * - `date` for `date` and `time` arguments,
+ * - `list` for simple arguments formatted as [[list]] (only declared, as the message syntax doesn't distinguish them
+ *   from `string` arguments).
+ */
+export type ArgumentType = keyof ArgumentValues;
+
+/**
+ * Maps the argument names referenced by a message to their [[ArgumentType]]s.
+ */
+export interface ArgumentTypes {
+    [name: string]: ArgumentType;
+}
+
+/**
+ * The type of a parameter object providing values for the arguments described by the [[ArgumentTypes]] `S`.
+ *
+ * **Example:** `Arguments<{ name: 'string', count: 'number' }>` is `{ name: string, count: number }`.
+ */
+export type Arguments<S extends ArgumentTypes> = {
+    [K in keyof S]: ArgumentValues[S[K]];
+};
+
+function argumentType(element: ArgumentElement): ArgumentType {
+    if (!element.format) {
+        return 'string';
+    }
+    switch (element.format.type) {
+        case 'numberFormat':
+        case 'pluralFormat':
+            return 'number';
+        case 'dateFormat':
+        case 'timeFormat':
+            return 'date';
+        default:
+            return 'string';
+    }
+}
+
+function collectArguments(elements: Element[], types: ArgumentTypes): void {
+    for (const element of elements) {
+        if (element.type === 'argumentElement') {
+            const type = argumentType(element);
+            const existing = types[element.id];
+            if (existing && existing !== 'string' && type !== 'string' && existing !== type) {
+                throw `Argument "${element.id}" is used as ${existing} and as ${type}`;
+            } else if (!existing || existing === 'string') {
+                types[element.id] = type;
+            }
+            const format = element.format;
+            if (format && (format.type === 'pluralFormat' || format.type === 'selectFormat')) {
+                format.options.forEach(option => collectArguments(option.value.elements, types));
+            }
+        }
+    }
+}
+
+/**
+ * The maximum number of messages whose arguments are kept, like the compiled formats in [[formatObject]].
+ */
+export const maxAnalyzedMessages = 1000;
+
+const analyzedMessages = new MessageCache<ArgumentTypes, string>({maxSize: maxAnalyzedMessages});
+
+/**
+ * Determines the arguments referenced by a message in
+ * [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/} and their types.
+ *
+ * An argument used as a simple `string` argument and as `number` or `date` argument in the same message
+ * (e.g. `{n, plural, other {{n} items}}`) is considered to be of the more specific type.
+ *
+ * **Example:**
+ * ```typescript
+ * messageArguments('{name} has {count, plural, one {# task} other {# tasks}}');
+ * // { name: 'string', count: 'number' }
+ * ```
+ *
+ * @param msgFormat the message to analyze.
+ * @returns the arguments referenced by the message.
+ * @throws an exception if the message is not a valid ICU message or an argument is used as `number` and as `date`.
+ */
+export function messageArguments(msgFormat: string): ArgumentTypes {
+    const types = analyzedMessages.get(msgFormat, () => {
+        const analyzed: ArgumentTypes = {};
+        collectArguments(parse(msgFormat).elements, analyzed);
+        return analyzed;
+    });
+    return { ...types as object } as ArgumentTypes;
+}
+
+/**
+ * Checks that the arguments referenced by a message exactly match the expected arguments.
+ * Simple arguments like `{name}` accept values of every type.
+ *
+ * @param msgFormat the message to check.
+ * @param expected the arguments the message is expected to reference.
+ * @throws an exception describing all mismatches if the message doesn't match the expected arguments.
+ */
+export function checkArguments(msgFormat: string, expected: ArgumentTypes): void {
+    const actual = messageArguments(msgFormat);
+    const problems: string[] = [];
+    for (const name of Object.keys(actual)) {
+        if (!expected[name]) {
+            problems.push(`"${name}" is not a declared argument`);
+        } else if (actual[name] !== 'string' && expected[name] !== actual[name]) {
+            problems.push(`"${name}" is declared as ${expected[name]} but used as ${actual[name]}`);
+        }
+    }
+    for (const name of Object.keys(expected)) {
+        if (!actual[name]) {
+            problems.push(`"${name}" is declared but not used`);
+        }
+    }
+    if (problems.length > 0) {
+        throw `Arguments of message "${msgFormat}" don't match: ${problems.join(', ')}`;
+    }
+}
+
+/**
+ * Matches a tag of a rich text message (see [[formatRich]]): an opening tag like `<b>`, a closing tag like `</b>` or
+ * a self-closing tag like `<br/>`. The groups are the closing slash, the tag name and the self-closing slash.
+ */
+export const messageTagPattern = /<(\/?)([a-zA-Z][\w-]*)\s*(\/?)>/;
+
+function collectTags(elements: Element[], tags: string[]): void {
+    for (const element of elements) {
+        if (element.type === 'messageTextElement') {
+            const pattern = new RegExp(messageTagPattern.source, 'g');
+            let match = pattern.exec(element.value);
+            while (match) {
+                if (tags.indexOf(match[2]) < 0) {
+                    tags.push(match[2]);
+                }
+                match = pattern.exec(element.value);
+            }
+        } else {
+            const format = element.format;
+            if (format && (format.type === 'pluralFormat' || format.type === 'selectFormat')) {
+                format.options.forEach(option => collectTags(option.value.elements, tags));
+            }
+        }
+    }
+}
+
+/**
+ * Determines the tags used by a rich text message (see [[formatRich]]), including the tags used in the cases of
+ * `plural` and `select` arguments.
+ *
+ * **Example:**
+ * ```typescript
+ * messageTags('Read the <link>terms</link> of <b>{company}</b>'); // ['link', 'b']
+ * ```
+ *
+ * @param msgFormat the message to analyze.
+ * @returns the names of the tags in the order of their first occurrence.
+ * @throws an exception if the message is not a valid ICU message.
+ */
+export function messageTags(msgFormat: string): string[] {
+    const tags: string[] = [];
+    collectTags(parse(msgFormat).elements, tags);
+    return tags;
+}
+
+/**
+ * Checks that the tags used by a message exactly match the expected tags.
+ *
+ * @param msgFormat the message to check.
+ * @param expected the tags the message is expected to use.
+ * @throws an exception describing all mismatches if the message doesn't match the expected tags.
+ */
+export function checkTags(msgFormat: string, expected: string[]): void {
+    const actual = messageTags(msgFormat);
+    const problems = actual
+        .filter(tag => expected.indexOf(tag) < 0)
+        .map(tag => `<${tag}> is not a declared tag`)
+        .concat(expected
+            .filter(tag => actual.indexOf(tag) < 0)
+            .map(tag => `<${tag}> is declared but not used`));
+    if (problems.length > 0) {
+        throw `Tags of message "${msgFormat}" don't match: ${problems.join(', ')}`;
+    }
+}
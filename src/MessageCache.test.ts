@@ -0,0 +1,54 @@
+import { languageTag } from '.';
+import { MessageCache } from './MessageCache';
+
+const en = languageTag('en');
+const de = languageTag('de');
+const fr = languageTag('fr');
+
+describe('MessageCache', () => {
+    it('must cache the messages for multiple languages', () => {
+        const cache = new MessageCache<string>();
+        const build = jest.fn((lang: string) => lang);
+        [en, de, fr, en, de, fr].forEach(lang => cache.get(lang, () => build(lang.tag)));
+        expect(build).toHaveBeenCalledTimes(3);
+        expect(cache.stats()).toEqual({size: 3, maxSize: 16, hits: 3, misses: 3, evictions: 0});
+    });
+
+    it('must evict the least recently used language if the cache is full', () => {
+        const cache = new MessageCache<string>({maxSize: 2});
+        cache.get(en, () => 'en');
+        cache.get(de, () => 'de');
+        cache.get(en, () => 'en');
+        cache.get(fr, () => 'fr');
+        expect(cache.get(en, () => 'rebuilt en')).toBe('en');
+        expect(cache.get(de, () => 'rebuilt de')).toBe('rebuilt de');
+        expect(cache.stats().evictions).toBe(2);
+    });
+
+    it('must evict the first added language if the cache is full and uses the fifo policy', () => {
+        const cache = new MessageCache<string>({maxSize: 2, evictionPolicy: 'fifo'});
+        cache.get(en, () => 'en');
+        cache.get(de, () => 'de');
+        cache.get(en, () => 'en');
+        cache.get(fr, () => 'fr');
+        expect(cache.get(de, () => 'rebuilt de')).toBe('de');
+        expect(cache.get(en, () => 'rebuilt en')).toBe('rebuilt en');
+    });
+
+    it('must rebuild invalidated and cleared languages', () => {
+        const cache = new MessageCache<string>();
+        cache.get(en, () => 'en');
+        cache.get(de, () => 'de');
+        expect(cache.invalidate(en)).toBe(true);
+        expect(cache.invalidate(en)).toBe(false);
+        expect(cache.get(en, () => 'rebuilt en')).toBe('rebuilt en');
+
+        cache.clear();
+        expect(cache.stats().size).toBe(0);
+        expect(cache.get(de, () => 'rebuilt de')).toBe('rebuilt de');
+    });
+
+    it('must reject invalid cache sizes', () => {
+        expect(() => new MessageCache<string>({maxSize: 0})).toThrow();
+    });
+});
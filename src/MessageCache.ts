@@ -0,0 +1,147 @@
+import { LanguageTag } from './LanguageTag';
+
+/**
+ * Strategy used by a [[MessageCache]] to decide which entry to drop once its [[CacheOptions.maxSize]] is reached.
+ *
+ * - `lru`: drops the entry that has not been requested for the longest time.
+ * - `fifo`: drops the entry that has been added first, regardless of how often it has been requested.
+ */
+export type EvictionPolicy = 'lru' | 'fifo';
+
+/**
+ * Configures the message cache of a [[MessageProvider]].
+ */
+export interface CacheOptions {
+    /**
+     * The maximum number of languages messages are cached for. Defaults to `16`.
+     */
+    maxSize?: number;
+
+    /**
+     * The strategy used to drop entries once `maxSize` is reached. Defaults to `lru`.
+     */
+    evictionPolicy?: EvictionPolicy;
+}
+
+/**
+ * Statistics about the usage of a message cache, e.g. to size it using [[CacheOptions]].
+ */
+export interface CacheStats {
+    /**
+     * The number of languages currently cached.
+     */
+    readonly size: number;
+
+    /**
+     * The maximum number of languages that will be cached.
+     */
+    readonly maxSize: number;
+
+    /**
+     * The number of requests served from the cache.
+     */
+    readonly hits: number;
+
+    /**
+     * The number of requests which required the messages to be built.
+     */
+    readonly misses: number;
+
+    /**
+     * The number of entries dropped because the cache was full.
+     */
+    readonly evictions: number;
+}
+
+/**
+ * The [[CacheOptions]] used if nothing else is specified.
+ */
+export const defaultCacheOptions: Readonly<CacheOptions> = {
+    maxSize: 16,
+    evictionPolicy: 'lru'
+};
+
+/**
+ * Caches messages per [[LanguageTag]] up to a configurable number of languages. Other keys `K` can be used to cache
+ * e.g. compiled formats per message.
+ */
+export class MessageCache<M, K = LanguageTag> {
+    private readonly maxSize: number;
+    private readonly evictionPolicy: EvictionPolicy;
+    private readonly entries: Map<K, M> = new Map();
+    private hits: number = 0;
+    private misses: number = 0;
+    private evictions: number = 0;
+
+    constructor(options: CacheOptions = {}) {
+        const effectiveOptions = { ...defaultCacheOptions as object, ...options as object } as CacheOptions;
+        if (!(effectiveOptions.maxSize! >= 1)) {
+            throw `Invalid cache size ${effectiveOptions.maxSize}`;
+        }
+        this.maxSize = effectiveOptions.maxSize!;
+        this.evictionPolicy = effectiveOptions.evictionPolicy!;
+    }
+
+    /**
+     * Provides the cached messages for the specified language or builds and caches them if there are none.
+     *
+     * @param language the language to provide the messages for.
+     * @param build called to create the messages if they are not cached.
+     * @returns the messages for the specified language.
+     */
+    get(language: K, build: () => M): M {
+        const cached = this.entries.get(language);
+        if (cached !== undefined) {
+            this.hits++;
+            if (this.evictionPolicy === 'lru') {
+                this.entries.delete(language);
+                this.entries.set(language, cached);
+            }
+            return cached;
+        } else {
+            this.misses++;
+            const messages = build();
+            this.add(language, messages);
+            return messages;
+        }
+    }
+
+    /**
+     * Drops the cached messages for the specified language.
+     *
+     * @returns `true` if messages for the language have been cached.
+     */
+    invalidate(language: K): boolean {
+        return this.entries.delete(language);
+    }
+
+    /**
+     * Drops all cached messages. The statistics are kept.
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * @returns a snapshot of the current cache statistics.
+     */
+    stats(): CacheStats {
+        return {
+            size: this.entries.size,
+            maxSize: this.maxSize,
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions
+        };
+    }
+
+    private add(language: K, messages: M): void {
+        if (this.entries.size >= this.maxSize) {
+            // maps iterate in insertion order, thus the first key is the least recently used or added one
+            const oldest = this.entries.keys().next().value;
+            this.entries.delete(oldest);
+            this.evictions++;
+        }
+        this.entries.set(language, messages);
+    }
+}
@@ -0,0 +1,109 @@
+import {
+    filterLanguages,
+    languageTag,
+    lookupLanguage,
+    matchLanguages,
+    negotiateLanguages,
+    parseAcceptLanguage
+} from '.';
+
+const tags = (...values: string[]) => values.map(languageTag);
+
+describe('parseAcceptLanguage', () => {
+    it('must order the ranges by quality', () => {
+        expect(parseAcceptLanguage('en;q=0.8, fr-CH, *;q=0.5, fr;q=0.9, de;q=0.8')).toEqual([
+            {range: 'fr-CH', quality: 1},
+            {range: 'fr', quality: 0.9},
+            {range: 'en', quality: 0.8},
+            {range: 'de', quality: 0.8},
+            {range: '*', quality: 0.5}
+        ]);
+    });
+
+    it('must omit unacceptable and malformed ranges', () => {
+        expect(parseAcceptLanguage('de;q=0, en ; Q=1.000, fr;q=2, it;level=1, -x, ,es-419;q=0.7')).toEqual([
+            {range: 'en', quality: 1},
+            {range: 'es-419', quality: 0.7}
+        ]);
+        expect(parseAcceptLanguage('')).toEqual([]);
+    });
+
+    it('must omit ranges which are no valid language tags', () => {
+        expect(parseAcceptLanguage('en-a, de;q=0.5')).toEqual([{range: 'de', quality: 0.5}]);
+        expect(parseAcceptLanguage('de-x, en')).toEqual([{range: 'en', quality: 1}]);
+        expect(parseAcceptLanguage('i-foo, *;q=0.1')).toEqual([{range: '*', quality: 0.1}]);
+    });
+});
+
+describe('filterLanguages', () => {
+    it('must filter the languages by prefix', () => {
+        expect(filterLanguages(['de', 'en-US'], ['en', 'en-US', 'de-AT', 'de-CH', 'dex'])).toEqual(
+            tags('de-AT', 'de-CH', 'en-US'));
+        expect(filterLanguages(['DE-at', '*'], ['en', 'de-AT'])).toEqual(tags('de-AT', 'en'));
+    });
+
+    it('must reject malformed ranges', () => {
+        expect(() => filterLanguages(['de-'], ['de'])).toThrow('Invalid language range de-');
+    });
+});
+
+describe('lookupLanguage', () => {
+    it('must truncate the ranges until a language matches', () => {
+        expect(lookupLanguage(['de-CH-1996', 'en'], ['en', 'de'])).toBe(languageTag('de'));
+        expect(lookupLanguage(['zh-Hant-CN-x-private1-private2'], ['zh-Hant', 'zh'])).toBe(languageTag('zh-Hant'));
+        expect(lookupLanguage(['*', 'fr-CA'], ['en', 'fr'])).toBe(languageTag('fr'));
+    });
+
+    it('must provide the default language if no range matches', () => {
+        expect(lookupLanguage(['it'], ['en', 'de'], 'en')).toBe(languageTag('en'));
+        expect(lookupLanguage(['it'], ['en', 'de'])).toBeUndefined();
+    });
+});
+
+describe('negotiateLanguages', () => {
+    const available = ['en', 'en-GB', 'de', 'de-CH', 'fr', 'zh', 'zh-Hant'];
+
+    it('must provide a fallback list ordered by preference', () => {
+        expect(negotiateLanguages(['de-AT', 'en-US'], available)).toEqual(tags('de', 'de-CH', 'en', 'en-GB'));
+        expect(negotiateLanguages(['en-AU'], available)).toEqual(tags('en-GB', 'en'));
+        expect(negotiateLanguages(['de'], available)).toEqual(tags('de', 'de-CH'));
+        expect(negotiateLanguages(['zh-TW'], available)).toEqual(tags('zh-Hant', 'zh'));
+    });
+
+    it('must add all other languages for a wildcard', () => {
+        expect(negotiateLanguages(['fr', '*'], ['de', 'fr', 'en'])).toEqual(tags('fr', 'de', 'en'));
+    });
+
+    it('must append the default language', () => {
+        expect(negotiateLanguages(['it'], available, 'en')).toEqual(tags('en'));
+        expect(negotiateLanguages(['en'], available, 'en')).toEqual(tags('en', 'en-GB'));
+        expect(negotiateLanguages(['it'], available)).toEqual([]);
+    });
+
+    it('must negotiate the ranges of an Accept-Language header', () => {
+        const requested = parseAcceptLanguage('fr;q=0.5, de-CH-1996, *;q=0.1').map(range => range.range);
+        expect(negotiateLanguages(requested, ['en', 'fr', 'de'])).toEqual(tags('de', 'fr', 'en'));
+    });
+
+    it('must ignore malformed requested languages', () => {
+        expect(negotiateLanguages(['en-a', 'de'], available)).toEqual(tags('de', 'de-CH'));
+        expect(negotiateLanguages(['de-x', 'i-foo', 'fr'], available, 'en')).toEqual(tags('fr', 'en'));
+    });
+});
+
+describe('matchLanguages', () => {
+    it('must report the distance of the first desired language matching', () => {
+        expect(matchLanguages(['it', 'gsw', 'en'], ['en', 'de'])).toEqual({
+            desired: languageTag('gsw'),
+            supported: languageTag('de'),
+            distance: 8
+        });
+        expect(matchLanguages(['en-AU'], ['en', 'en-GB'])!.supported).toBe(languageTag('en-GB'));
+    });
+
+    it('must not match languages at or above the threshold', () => {
+        expect(matchLanguages(['sr-Latn'], ['sr'])).toBeUndefined();
+        expect(matchLanguages(['gsw'], ['de'], 8)).toBeUndefined();
+        expect(matchLanguages(['gsw'], ['de'], 9)!.distance).toBe(8);
+    });
+});
@@ -0,0 +1,236 @@
+import { LanguageTag, languageMatchThreshold, languageTag } from './LanguageTag';
+import { Language } from './Translator';
+
+/**
+ * A language range of an HTTP `Accept-Language` header with its quality (e.g. `de-CH;q=0.8`).
+ */
+export interface LanguageRange {
+    /**
+     * The language range as defined by [RFC 4647](https://tools.ietf.org/html/rfc4647#section-2.1), i.e. a language
+     * tag or `*` to match any language.
+     */
+    readonly range: string;
+
+    /**
+     * The quality of the range between `0` and `1`.
+     */
+    readonly quality: number;
+}
+
+const rangePattern = /^(\*|[a-z]{1,8}(-[a-z0-9]{1,8})*)$/i;
+const qualityPattern = /^q=(0(\.\d{0,3})?|1(\.0{0,3})?)$/i;
+
+function tag(language: Language): LanguageTag {
+    return typeof language === 'string' ? languageTag(language) : language;
+}
+
+function isLanguageTag(value: string): boolean {
+    try {
+        languageTag(value);
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+function checkRange(range: string): string {
+    if (!rangePattern.test(range)) {
+        throw `Invalid language range ${range}`;
+    }
+    return range.toLowerCase();
+}
+
+/**
+ * Parses the value of an HTTP `Accept-Language` header.
+ *
+ * **Example:**
+ * ```typescript
+ * parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5');
+ * // [{range: 'fr-CH', quality: 1}, {range: 'fr', quality: 0.9}, {range: 'en', quality: 0.8}, {range: '*', ...}]
+ * ```
+ *
+ * @param header the value of the header.
+ * @returns the language ranges ordered by quality, ranges of the same quality in the order of the header. Ranges with
+ *     quality `0` (i.e. not acceptable), malformed entries and ranges other than `*` which are no valid language tags
+ *     (e.g. `en-a`) are omitted, as clients are not expected to send well formed headers in any case.
+ */
+export function parseAcceptLanguage(header: string): LanguageRange[] {
+    return header.split(',')
+        .map(entry => entry.trim().split(/\s*;\s*/))
+        .filter(([range, ...parameters]) => rangePattern.test(range) && (range === '*' || isLanguageTag(range)) &&
+            parameters.every(parameter => qualityPattern.test(parameter)))
+        .map(([range, ...parameters], index) => ({
+            range,
+            quality: parameters.length > 0 ? parseFloat(parameters[parameters.length - 1].substr(2)) : 1,
+            index
+        }))
+        .filter(range => range.quality > 0)
+        .sort((a, b) => b.quality - a.quality || a.index - b.index)
+        .map(({range, quality}) => ({range, quality}));
+}
+
+function basicFilterMatches(range: string, language: LanguageTag): boolean {
+    const lowerCaseTag = language.tag.toLowerCase();
+    return range === '*' || lowerCaseTag === range || lowerCaseTag.indexOf(`${range}-`) === 0;
+}
+
+/**
+ * Filters the available languages using the
+ * [basic filtering of RFC 4647](https://tools.ietf.org/html/rfc4647#section-3.3.1): a range matches all languages
+ * equal to it or starting with it followed by `-`, `*` matches all languages.
+ *
+ * **Example:**
+ * ```typescript
+ * filterLanguages(['de', 'en-US'], ['en', 'en-US', 'de-AT', 'de-CH']); // [de-AT, de-CH, en-US]
+ * ```
+ *
+ * @param ranges the language ranges ordered by preference.
+ * @param available the available languages.
+ * @returns the matching languages ordered by the preference of the matching range.
+ * @throws an exception if one of the ranges is malformed.
+ */
+export function filterLanguages(ranges: string[], available: Language[]): LanguageTag[] {
+    const languages = available.map(tag);
+    const result: LanguageTag[] = [];
+    ranges.map(checkRange).forEach(range => languages
+        .filter(language => basicFilterMatches(range, language) && result.indexOf(language) < 0)
+        .forEach(language => result.push(language)));
+    return result;
+}
+
+/**
+ * Looks up the single available language best matching the ranges using the
+ * [lookup of RFC 4647](https://tools.ietf.org/html/rfc4647#section-3.4): each range is progressively truncated
+ * (e.g. `zh-Hant-CN-x-private` → `zh-Hant-CN` → `zh-Hant` → `zh`) until it equals one of the available languages.
+ *
+ * **Example:**
+ * ```typescript
+ * lookupLanguage(['de-CH-1996', 'en'], ['en', 'de']); // de
+ * ```
+ *
+ * @param ranges the language ranges ordered by preference. `*` ranges are ignored.
+ * @param available the available languages.
+ * @param defaultLanguage the language to return if no range matches.
+ * @returns the matching language or `defaultLanguage` if no range matches.
+ * @throws an exception if one of the ranges is malformed.
+ */
+export function lookupLanguage(ranges: string[], available: Language[],
+                               defaultLanguage?: Language): LanguageTag | undefined {
+    const languages = available.map(tag);
+    for (const range of ranges.map(checkRange).filter(r => r !== '*')) {
+        const subtags = range.split('-');
+        while (subtags.length > 0) {
+            const candidate = subtags.join('-');
+            const match = languages.filter(language => language.tag.toLowerCase() === candidate)[0];
+            if (match) {
+                return match;
+            }
+            subtags.pop();
+            if (subtags.length > 0 && subtags[subtags.length - 1].length === 1) {
+                subtags.pop();
+            }
+        }
+    }
+    return defaultLanguage !== undefined ? tag(defaultLanguage) : undefined;
+}
+
+/**
+ * Negotiates the languages to use for the requested languages, e.g. the user's preferences or the ranges of an
+ * `Accept-Language` header. In contrast to [[lookupLanguage]] the result is a fallback list ordered by preference:
+ * for each requested language all available languages with a [[LanguageTag.distance]] below
+ * [[languageMatchThreshold]] are added in the order of [[LanguageTag.pickBestMatching]], i.e. the requested language
+ * itself first, then the closest languages (e.g. `en-GB` for `en-AU` or `zh-Hant` for `zh-TW`). Thus closely related
+ * languages match as well, e.g. `no` for `nb` or `de` for `gsw`. A `*` adds all available languages not contained yet.
+ *
+ * **Example:**
+ * ```typescript
+ * const requested = parseAcceptLanguage(req.headers['accept-language']).map(r => r.range);
+ * negotiateLanguages(requested, ['en', 'en-GB', 'de', 'fr'], 'en');
+ * // ['de', 'en', 'en-GB'] for 'de-AT, en-US;q=0.8'
+ * ```
+ *
+ * @param requested the requested languages ordered by preference. Malformed languages are ignored, as they
+ *     usually stem from the client.
+ * @param available the available languages.
+ * @param defaultLanguage a language to append to the result if not contained yet.
+ * @returns the negotiated languages ordered by preference.
+ * @throws an exception if one of the available languages or the default language is malformed.
+ */
+export function negotiateLanguages(requested: Language[], available: Language[],
+                                   defaultLanguage?: Language): LanguageTag[] {
+    const languages = available.map(tag);
+    const result: LanguageTag[] = [];
+    const add = (language: LanguageTag) => {
+        if (result.indexOf(language) < 0) {
+            result.push(language);
+        }
+    };
+    requested.forEach(request => {
+        if (request === '*') {
+            languages.forEach(add);
+            return;
+        } else if (typeof request === 'string' && !isLanguageTag(request)) {
+            return;
+        }
+        const requestedLanguage = tag(request);
+        let remaining = languages.filter(language => result.indexOf(language) < 0);
+        let bestMatching = requestedLanguage.pickBestMatching(remaining);
+        while (bestMatching) {
+            add(bestMatching);
+            remaining = remaining.filter(language => language !== bestMatching);
+            bestMatching = requestedLanguage.pickBestMatching(remaining);
+        }
+    });
+    if (defaultLanguage !== undefined && result.indexOf(tag(defaultLanguage)) < 0) {
+        result.push(tag(defaultLanguage));
+    }
+    return result;
+}
+
+/**
+ * The result of [[matchLanguages]].
+ */
+export interface LanguageMatch {
+    /**
+     * The matching language of the desired languages.
+     */
+    readonly desired: LanguageTag;
+
+    /**
+     * The supported language best matching [[desired]].
+     */
+    readonly supported: LanguageTag;
+
+    /**
+     * The [[LanguageTag.distance]] from [[desired]] to [[supported]].
+     */
+    readonly distance: number;
+}
+
+/**
+ * Matches the desired languages against the supported languages and reports the distance of the match. This allows
+ * to decide whether a match is good enough or the default language should be used instead.
+ *
+ * **Example:**
+ * ```typescript
+ * matchLanguages(['gsw', 'en'], ['de', 'fr']); // {desired: gsw, supported: de, distance: 8}
+ * ```
+ *
+ * @param desired the desired languages ordered by preference.
+ * @param supported the supported languages.
+ * @param threshold the minimum distance of languages not matching. Defaults to [[languageMatchThreshold]].
+ * @returns the best match of the first desired language matching one of the supported languages or `undefined` if no
+ *     desired language matches.
+ * @throws an exception if one of the languages is malformed.
+ */
+export function matchLanguages(desired: Language[], supported: Language[],
+                               threshold: number = languageMatchThreshold): LanguageMatch | undefined {
+    const supportedLanguages = supported.map(tag);
+    for (const desiredLanguage of desired.map(tag)) {
+        const match = desiredLanguage.pickBestMatching(supportedLanguages, threshold);
+        if (match) {
+            return {desired: desiredLanguage, supported: match, distance: desiredLanguage.distance(match)};
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,101 @@
+import {
+    format,
+    formatObject,
+    formatRich,
+    LanguageTag,
+    languageTag,
+    plural,
+    pseudoLocalizeMessage,
+    pseudoLocalizeText,
+    pseudoLocalizing,
+    select,
+    translate
+} from '.';
+
+const enXA = languageTag('en-XA');
+const arXB = languageTag('ar-XB');
+
+describe('pseudoLocalizeText', () => {
+    it('must accent, expand and enclose the text', () => {
+        expect(pseudoLocalizeText('Welcome')).toBe('[Ŵéļçöɱé~~~]');
+        expect(pseudoLocalizeText('Hi!', 'accented', 0)).toBe('[Ĥî!]');
+        expect(pseudoLocalizeText('Hi', 'bidi', 0.5)).toBe('[\u202eHi\u202c~]');
+    });
+});
+
+describe('pseudoLocalizeMessage', () => {
+    it('must keep arguments intact', () => {
+        expect(pseudoLocalizeMessage('Hello {name}, you have {count, number, #.#} tasks', 'accented', 0))
+            .toBe('[Ĥéļļö {name}, ýöû ĥáṽé {count, number, #.#} ţášķš]');
+    });
+
+    it('must transform the cases of plural and select arguments', () => {
+        expect(pseudoLocalizeMessage('{n, plural, offset:1 =0 {none} one {# task} other {# tasks}}', 'accented', 0))
+            .toBe('[{n, plural, offset:1 =0 {ñöñé} one {# ţášķ} other {# ţášķš}}]');
+        expect(pseudoLocalizeMessage('{g, select, female {She} other {They}} #1', 'accented', 0))
+            .toBe('[{g, select, female {Šĥé} other {Ţĥéý}} #1]');
+    });
+
+    it('must keep tags intact', () => {
+        expect(pseudoLocalizeMessage('Read the <link>terms</link><br/>', 'accented', 0))
+            .toBe('[Ŕéáð ţĥé <link>ţéŕɱš</link><br/>]');
+    });
+
+    it('must keep escaped characters', () => {
+        expect(pseudoLocalizeMessage('a \\{b\\}', 'accented', 0)).toBe('[á \\{ƀ\\}]');
+    });
+
+    it('must expand by the length of the literal text', () => {
+        expect(pseudoLocalizeMessage('{name} abcd', 'accented', 0.5)).toBe('[{name} áƀçð~~~]');
+    });
+
+    it('must reject malformed messages', () => {
+        expect(() => pseudoLocalizeMessage('{name')).toThrow();
+        expect(() => pseudoLocalizeMessage('{n, plural, one {x}')).toThrow();
+        expect(() => pseudoLocalizeMessage('a}')).toThrow();
+    });
+});
+
+describe('pseudoLocalizing', () => {
+    const messages = translate((lang: LanguageTag) => ({
+        welcome: 'Welcome',
+        greeting: formatObject<{ name: string }>(lang, 'Hello {name}'),
+        count: format<number>(lang, '{1, number} items'),
+        tasks: plural(lang, {
+            one: 'One task',
+            other: n => `${n} tasks`
+        }),
+        gender: select(lang, {male: 'he', other: 'they'}),
+        terms: formatRich(lang, 'Read the <link>terms</link>', {}, ['link']),
+        task: {
+            add: 'Add task'
+        },
+        missing: undefined
+    }));
+    const translator = pseudoLocalizing(messages, {expansion: 0});
+
+    it('must provide accented messages for en-XA', () => {
+        const msg = translator.messagesFor(enXA);
+        expect(msg.welcome).toBe('[Ŵéļçöɱé]');
+        expect(msg.greeting({name: 'Sven'})).toBe('[Ĥéļļö Sven]');
+        expect(msg.count(1234.5)).toBe('[1,234.5 îţéɱš]');
+        expect(msg.tasks(1)).toBe('[Öñé ţášķ]');
+        expect(msg.tasks(3)).toBe('[3 ţášķš]');
+        expect(msg.gender('male')).toBe('[ĥé]');
+        expect(msg.terms({}, {link: children => `<a>${children.join('')}</a>`}))
+            .toEqual(['[Ŕéáð ţĥé ', '<a>ţéŕɱš</a>', ']']);
+        expect(msg.task.add).toBe('[Åðð ţášķ]');
+        expect(msg.missing).toBeUndefined();
+    });
+
+    it('must provide right-to-left messages for ar-XB', () => {
+        expect(translator.messagesFor(arXB).welcome).toBe('[\u202eWelcome\u202c]');
+        expect(translator.messagesFor(arXB).count(2)).toBe('[2\u202e items\u202c]');
+    });
+
+    it('must support custom pseudo-locales', () => {
+        const custom = pseudoLocalizing(translate({ok: 'OK'}), {locales: {'de-XA': 'accented'}});
+        expect(custom.languages().map(l => l.tag)).toEqual(['de-XA']);
+        expect(custom.messagesFor(languageTag('de-XA')).ok).toBe('[ÖĶ~]');
+    });
+});
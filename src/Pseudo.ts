@@ -0,0 +1,221 @@
+import { describeFormatter, formatterLike } from './Format';
+import { LanguageTag, languageTag } from './LanguageTag';
+import { messageTagPattern } from './MessageArguments';
+import { Language, Messages, Translator } from './Translator';
+
+/**
+ * How a pseudo-locale transforms messages:
+ *
+ * - `accented` replaces latin letters by accented ones (e.g. `Ŵéļçöɱé`) to reveal hard-coded strings and encoding
+ *   problems,
+ * - `bidi` marks the text as right-to-left using Unicode bidi override characters to reveal layout problems of
+ *   right-to-left languages.
+ *
+ * Both styles enclose each message in brackets and expand it to reveal truncation and concatenation bugs.
+ */
+export type PseudoLocaleStyle = 'accented' | 'bidi';
+
+/**
+ * Options for [[pseudoLocalizing]].
+ */
+export interface PseudoLocaleOptions {
+    /**
+     * The pseudo-locales to support with their style. Defaults to `{ 'en-XA': 'accented', 'ar-XB': 'bidi' }`.
+     */
+    locales?: { [language: string]: PseudoLocaleStyle };
+
+    /**
+     * The fraction of the text length the messages are expanded by. Defaults to `0.3`.
+     */
+    expansion?: number;
+
+    /**
+     * The language of the default messages used as base, which is also used for formatting numbers and dates.
+     * Defaults to `en`.
+     */
+    sourceLanguage?: Language;
+}
+
+const accents: { [letter: string]: string } = {
+    a: 'á', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'î', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+    n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+    A: 'Å', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+    N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž'
+};
+
+const rightToLeftOverride = '\u202e';
+const popDirectionalFormatting = '\u202c';
+
+function transformText(text: string, style: PseudoLocaleStyle): string {
+    return style === 'bidi' ?
+        rightToLeftOverride + text + popDirectionalFormatting :
+        text.replace(/[a-zA-Z]/g, letter => accents[letter]);
+}
+
+function enclose(text: string, textLength: number, expansion: number): string {
+    return `[${text}${new Array(Math.ceil(textLength * expansion) + 1).join('~')}]`;
+}
+
+/**
+ * Pseudo-localizes a plain text.
+ *
+ * @param text the text to transform.
+ * @param style the style of the transformation.
+ * @param expansion the fraction of the text length the text is expanded by.
+ * @returns the transformed text.
+ */
+export function pseudoLocalizeText(text: string, style: PseudoLocaleStyle = 'accented',
+                                   expansion: number = 0.3): string {
+    return enclose(transformText(text, style), text.length, expansion);
+}
+
+const tagPattern = new RegExp(`^${messageTagPattern.source}`);
+
+/**
+ * Pseudo-localizes a message in [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/}. Only the
+ * literal text is transformed, argument names, formats and the tags of rich text messages (see [[formatRich]]) are
+ * kept, while the cases of `plural` and `select` arguments are transformed too.
+ *
+ * @param msgFormat the message to transform.
+ * @param style the style of the transformation.
+ * @param expansion the fraction of the text length the message is expanded by.
+ * @returns the transformed message.
+ * @throws an exception if the message is malformed.
+ */
+export function pseudoLocalizeMessage(msgFormat: string, style: PseudoLocaleStyle = 'accented',
+                                      expansion: number = 0.3): string {
+    let position = 0;
+    let textLength = 0;
+
+    function fail(): never {
+        throw `Invalid message at position ${position}: ${msgFormat}`;
+    }
+
+    function text(inPlural: boolean): string {
+        let result = '';
+        let literal = '';
+        const flush = () => {
+            result += literal ? transformText(literal, style) : '';
+            textLength += literal.length;
+            literal = '';
+        };
+        while (position < msgFormat.length && msgFormat[position] !== '}') {
+            const c = msgFormat[position];
+            const tag = c === '<' ? tagPattern.exec(msgFormat.substr(position)) : null;
+            if (tag) {
+                flush();
+                position += tag[0].length;
+                result += tag[0];
+            } else if (c === '{' || c === '\\' || (c === '#' && inPlural)) {
+                flush();
+                const verbatim = c === '{' ? argument() : msgFormat.substr(position, c === '\\' ? 2 : 1);
+                position += c === '{' ? 0 : verbatim.length;
+                result += verbatim;
+            } else {
+                literal += c;
+                position++;
+            }
+        }
+        flush();
+        return result;
+    }
+
+    function match(pattern: RegExp): string | undefined {
+        const found = pattern.exec(msgFormat.substr(position));
+        if (found) {
+            position += found[0].length;
+            return found[0];
+        }
+        return undefined;
+    }
+
+    function argument(): string {
+        const header = /^\{\s*[^\s,{}]+\s*(,\s*(\w+)\s*)?/.exec(msgFormat.substr(position)) || fail();
+        const type = header[2];
+        position += header[0].length;
+        if (type !== 'plural' && type !== 'selectordinal' && type !== 'select') {
+            const end = msgFormat.indexOf('}', position);
+            const rest = end >= 0 ? msgFormat.substring(position, end + 1) : fail();
+            position = end + 1;
+            return header[0] + rest;
+        }
+        let result = header[0] + (match(/^,\s*(offset\s*:\s*\d+\s*)?/) || fail());
+        let selector = match(/^[^\s{}]+\s*\{/);
+        while (selector) {
+            result += selector + text(type !== 'select') + (match(/^\}\s*/) || fail());
+            selector = match(/^[^\s{}]+\s*\{/);
+        }
+        return result + (match(/^\}/) || fail());
+    }
+
+    const transformed = text(false);
+    if (position < msgFormat.length) {
+        fail();
+    }
+    return enclose(transformed, textLength, expansion);
+}
+
+interface MessageObject {
+    [key: string]: {} | undefined;
+}
+
+function pseudoFormatter(message: Function, language: LanguageTag, style: PseudoLocaleStyle,
+                         expansion: number): Function {
+    const description = describeFormatter(message);
+    if (!description || description.msgFormat === undefined) {
+        return (...args: Array<{}>) => pseudoLocalizeText(message.apply(undefined, args), style, expansion);
+    }
+    return formatterLike(description, language, pseudoLocalizeMessage(description.msgFormat, style, expansion));
+}
+
+function pseudoMessages(messages: MessageObject, language: LanguageTag, style: PseudoLocaleStyle,
+                        expansion: number): MessageObject {
+    const result: MessageObject = {};
+    Object.keys(messages).forEach(key => {
+        const message = messages[key];
+        if (typeof message === 'string') {
+            result[key] = pseudoLocalizeText(message, style, expansion);
+        } else if (typeof message === 'function') {
+            result[key] = pseudoFormatter(message as Function, language, style, expansion);
+        } else if (typeof message === 'object' && message !== null) {
+            result[key] = pseudoMessages(message as MessageObject, language, style, expansion);
+        } else {
+            result[key] = message;
+        }
+    });
+    return result;
+}
+
+/**
+ * Provides a new translator additionally supporting pseudo-locales, whose messages are generated from the default
+ * messages without any translation work (see [[PseudoLocaleStyle]]). This allows to spot hard-coded strings,
+ * truncation and concatenation bugs before real translations are available.
+ *
+ * Messages based on a single message (see [[FormatterDescription.msgFormat]]), e.g. created by [[format]],
+ * [[formatRich]] or [[pluralFormat]], are pseudo-localized using [[pseudoLocalizeMessage]], so that argument values
+ * and formatted numbers are kept intact. The output of all other message functions, e.g. [[select]], is
+ * pseudo-localized as a whole.
+ *
+ * **Example:**
+ * ```typescript
+ * const translator = pseudoLocalizing(translate({welcome: 'Welcome'}));
+ * translator.messagesFor(languageTag('en-XA')).welcome; // '[Ŵéļçöɱé~~~]'
+ * ```
+ *
+ * @param translator the translator providing the default messages.
+ * @param options the options.
+ * @returns A new translator additionally supporting the pseudo-locales.
+ */
+export function pseudoLocalizing<M extends Messages>(translator: Translator<M>,
+                                                     options: PseudoLocaleOptions = {}): Translator<M> {
+    const locales = options.locales || {'en-XA': 'accented', 'ar-XB': 'bidi'};
+    const expansion = options.expansion !== undefined ? options.expansion : 0.3;
+    const source = options.sourceLanguage || 'en';
+    const sourceLanguage = typeof source === 'string' ? languageTag(source) : source;
+    const pseudoTranslation = (style: PseudoLocaleStyle) => () => {
+        const defaults = translator.defaultMessagesFor(sourceLanguage) as {} as MessageObject;
+        return pseudoMessages(defaults, sourceLanguage, style, expansion) as {} as M;
+    };
+    return Object.keys(locales)
+        .reduce((result, locale) => result.supporting(locale, pseudoTranslation(locales[locale])), translator);
+}
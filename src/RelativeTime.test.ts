@@ -0,0 +1,141 @@
+import { duration, languageTag, relativeTime, RelativeTimeUnit, UnitStyle } from '.';
+
+const en = languageTag('en');
+const de = languageTag('de');
+
+const second = 1000;
+const minute = 60 * second;
+const hour = 60 * minute;
+const day = 24 * hour;
+
+interface IntlWithRelativeTime {
+    RelativeTimeFormat?: {};
+    ListFormat?: {};
+}
+
+describe('relativeTime', () => {
+    const ago = relativeTime(en);
+
+    it('must pick the unit by the elapsed time', () => {
+        expect(ago(-3 * minute)).toBe('3 minutes ago');
+        expect(ago(2 * day)).toBe('in 2 days');
+        expect(ago(-59 * second)).toBe('59 seconds ago');
+        expect(ago(-60 * second)).toBe('1 minute ago');
+        expect(ago(-23 * hour)).toBe('23 hours ago');
+        expect(ago(-10 * day)).toBe('1 week ago');
+        expect(ago(-45 * day)).toBe('1 month ago');
+        expect(ago(400 * day)).toBe('in 1 year');
+        expect(ago(-200)).toBe('in 0 seconds');
+    });
+
+    it('must format dates relative to now', () => {
+        expect(ago(new Date(2017, 5, 1, 12), new Date(2017, 5, 1, 14))).toBe('2 hours ago');
+        expect(ago(new Date(Date.now() + 5 * minute + 100))).toBe('in 5 minutes');
+    });
+
+    it('must use named phrases for numeric auto', () => {
+        const auto = relativeTime(en, {numeric: 'auto'});
+        expect(auto(new Date(2017, 5, 1), new Date(2017, 5, 2))).toBe('yesterday');
+        expect(auto(0)).toBe('now');
+        expect(auto(7 * day)).toBe('next week');
+        expect(auto(2 * day)).toBe('in 2 days');
+    });
+
+    it('must respect the thresholds', () => {
+        const rounded = relativeTime(en, {thresholds: {minute: 45, day: 30}});
+        expect(rounded(-50 * minute)).toBe('1 hour ago');
+        expect(rounded(-44 * minute)).toBe('44 minutes ago');
+        expect(rounded(-10 * day)).toBe('10 days ago');
+    });
+
+    it('must respect the language and style', () => {
+        expect(relativeTime(en, {style: 'short'})(-3 * minute)).toBe('3 min. ago');
+        expect(relativeTime(de)(-3 * minute)).toBe('vor 3 Minuten');
+        expect(relativeTime(de, {numeric: 'auto'})(day)).toBe('morgen');
+    });
+
+    it('must reject times which are not finite', () => {
+        expect(() => ago(NaN)).toThrow('Invalid relative time NaN');
+        expect(() => ago(Infinity)).toThrow('Invalid relative time Infinity');
+        expect(() => ago(new Date('invalid'), new Date(2017, 5, 1))).toThrow(/^Invalid relative time between Invalid Date/);
+    });
+});
+
+describe('duration', () => {
+    it('must format the units that are not 0', () => {
+        expect(duration(en)(80 * minute)).toBe('1 hr, 20 min');
+        expect(duration(en)(day + hour + minute + second)).toBe('1 day, 1 hr, 1 min, 1 sec');
+        expect(duration(en)(0)).toBe('0 sec');
+    });
+
+    it('must respect the language and style', () => {
+        expect(duration(en, 'long')(80 * minute + 5 * second)).toBe('1 hour, 20 minutes, 5 seconds');
+        expect(duration(en, 'narrow')(80 * minute)).toBe('1h 20m');
+        expect(duration(de, 'long')(2 * day + 80 * minute)).toBe('2 Tage, 1 Stunde und 20 Minuten');
+    });
+
+    it('must format digital durations', () => {
+        expect(duration(en, 'digital')(80 * minute + 5 * second)).toBe('1:20:05');
+        expect(duration(en, 'digital')(26 * hour + 499)).toBe('26:00:00');
+        expect(duration(languageTag('ar-EG'), 'digital')(5 * minute)).toBe('٠:٠٥:٠٠');
+    });
+
+    it('must reject invalid durations', () => {
+        expect(() => duration(en)(-1000)).toThrow('Invalid duration -1000');
+        expect(() => duration(en)(NaN)).toThrow('Invalid duration NaN');
+    });
+});
+
+describe('without Intl.RelativeTimeFormat and unit formatting', () => {
+    const intl = Intl as {} as IntlWithRelativeTime;
+    const relativeTimeFormat = intl.RelativeTimeFormat;
+    const listFormat = intl.ListFormat;
+    const numberFormat = Intl.NumberFormat;
+    const units: RelativeTimeUnit[] = ['second', 'minute', 'hour', 'day', 'week', 'month', 'year'];
+    const milliseconds: { [unit: string]: number } = {
+        second, minute, hour, day, week: 7 * day, month: 30.436875 * day, year: 365.2425 * day
+    };
+    const styles: UnitStyle[] = ['long', 'short', 'narrow'];
+
+    const relativeTimes = (numeric: 'always' | 'auto') => [en, de].map(language => styles.map(style => {
+        const format = relativeTime(language, {numeric, style});
+        return units.map(unit => [-2, -1, 0, 1, 2].map(value => format(value * milliseconds[unit])));
+    }));
+    const durations = () => [en, de].map(language => styles.map(style =>
+        [0, second, 2 * minute, 25 * hour + 2 * second, 2 * day + hour + minute].map(duration(language, style))));
+
+    // CLDR separates some German month patterns by a no-break space, the bundled patterns consistently use a space
+    const spaced = (formatted: string[][][][]) => formatted.map(language => language.map(style =>
+        style.map(unit => unit.map(value => value.replace(/\u00a0/g, ' ')))));
+    const expected = {
+        always: spaced(relativeTimes('always')),
+        auto: spaced(relativeTimes('auto')),
+        durations: durations()
+    };
+
+    beforeEach(() => {
+        delete intl.RelativeTimeFormat;
+        delete intl.ListFormat;
+        // engines not supporting unit formatting ignore the style
+        Intl.NumberFormat = ((locales: string, options: { style?: string } = {}) => new numberFormat(locales, {
+            ...options,
+            style: options.style === 'unit' ? 'decimal' : options.style
+        })) as {} as typeof Intl.NumberFormat;
+    });
+    afterEach(() => {
+        intl.RelativeTimeFormat = relativeTimeFormat;
+        intl.ListFormat = listFormat;
+        Intl.NumberFormat = numberFormat;
+    });
+
+    it('must format like Intl using the bundled patterns', () => {
+        expect(relativeTimes('always')).toEqual(expected.always);
+        expect(relativeTimes('auto')).toEqual(expected.auto);
+        expect(durations()).toEqual(expected.durations);
+    });
+
+    it('must fall back to English', () => {
+        expect(relativeTime(languageTag('fr'))(-3 * minute)).toBe('3 minutes ago');
+        expect(duration(languageTag('fr'))(80 * minute)).toBe('1 hr, 20 min');
+    });
+});
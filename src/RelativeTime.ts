@@ -0,0 +1,512 @@
+import { LanguageTag, languageTag } from './LanguageTag';
+import { list, PluralForms, pluralFormat } from './Format';
+
+/**
+ * The units used by [[relativeTime]].
+ */
+export type RelativeTimeUnit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * The width of the unit names of [[relativeTime]] and [[duration]] (e.g. `3 minutes ago`, `3 min. ago` or `3m ago`).
+ */
+export type UnitStyle = 'long' | 'short' | 'narrow';
+
+/**
+ * The thresholds of [[relativeTime]]: a unit is used as long as the rounded value is less than its threshold, otherwise
+ * the next larger unit is used. E.g. with a `minute` threshold of `45` a time 50 minutes ago is formatted as
+ * `1 hour ago`.
+ */
+export interface RelativeTimeThresholds {
+    /**
+     * Defaults to `60`.
+     */
+    second?: number;
+
+    /**
+     * Defaults to `60`.
+     */
+    minute?: number;
+
+    /**
+     * Defaults to `24`.
+     */
+    hour?: number;
+
+    /**
+     * Defaults to `7`.
+     */
+    day?: number;
+
+    /**
+     * Defaults to `4`.
+     */
+    week?: number;
+
+    /**
+     * Defaults to `12`.
+     */
+    month?: number;
+}
+
+/**
+ * The options of [[relativeTime]].
+ */
+export interface RelativeTimeOptions {
+    /**
+     * `always` (the default) always formats the number (e.g. `1 day ago`), `auto` uses phrases like `yesterday`,
+     * `now` or `next week` where the language provides them.
+     */
+    numeric?: 'always' | 'auto';
+
+    /**
+     * The width of the unit names. Defaults to `long`.
+     */
+    style?: UnitStyle;
+
+    /**
+     * The thresholds used to pick the unit.
+     */
+    thresholds?: RelativeTimeThresholds;
+}
+
+/**
+ * The styles of a [[duration]]: the width of the unit names (e.g. `1 hour, 20 minutes`, `1 hr, 20 min` or `1h 20m`)
+ * or `digital` for a clock like `1:20:00`.
+ */
+export type DurationStyle = UnitStyle | 'digital';
+
+interface RelativeUnitPatterns {
+    past: PluralForms;
+    future: PluralForms;
+    named?: { [value: string]: string };
+}
+
+interface FallbackPatterns {
+    relative: { [unit: string]: RelativeUnitPatterns };
+    duration: { [unit: string]: PluralForms };
+}
+
+/*
+ * The patterns used if `Intl.RelativeTimeFormat` or unit formatting of `Intl.NumberFormat` aren't available, taken
+ * from the CLDR. Languages without bundled patterns fall back to English.
+ */
+
+const fallbackPatterns: { [language: string]: { [style: string]: FallbackPatterns } } = {
+    en: {
+        long: {
+            relative: {
+                second: {
+                    past: {one: '# second ago', other: '# seconds ago'},
+                    future: {one: 'in # second', other: 'in # seconds'},
+                    named: {'0': 'now'}
+                },
+                minute: {
+                    past: {one: '# minute ago', other: '# minutes ago'},
+                    future: {one: 'in # minute', other: 'in # minutes'},
+                    named: {'0': 'this minute'}
+                },
+                hour: {
+                    past: {one: '# hour ago', other: '# hours ago'}, future: {one: 'in # hour', other: 'in # hours'},
+                    named: {'0': 'this hour'}
+                },
+                day: {
+                    past: {one: '# day ago', other: '# days ago'}, future: {one: 'in # day', other: 'in # days'},
+                    named: {'-1': 'yesterday', '0': 'today', '1': 'tomorrow'}
+                },
+                week: {
+                    past: {one: '# week ago', other: '# weeks ago'}, future: {one: 'in # week', other: 'in # weeks'},
+                    named: {'-1': 'last week', '0': 'this week', '1': 'next week'}
+                },
+                month: {
+                    past: {one: '# month ago', other: '# months ago'},
+                    future: {one: 'in # month', other: 'in # months'},
+                    named: {'-1': 'last month', '0': 'this month', '1': 'next month'}
+                },
+                year: {
+                    past: {one: '# year ago', other: '# years ago'}, future: {one: 'in # year', other: 'in # years'},
+                    named: {'-1': 'last year', '0': 'this year', '1': 'next year'}
+                }
+            },
+            duration: {
+                day: {one: '# day', other: '# days'},
+                hour: {one: '# hour', other: '# hours'},
+                minute: {one: '# minute', other: '# minutes'},
+                second: {one: '# second', other: '# seconds'}
+            }
+        },
+        short: {
+            relative: {
+                second: {
+                    past: {one: '# sec. ago', other: '# sec. ago'}, future: {one: 'in # sec.', other: 'in # sec.'},
+                    named: {'0': 'now'}
+                },
+                minute: {
+                    past: {one: '# min. ago', other: '# min. ago'}, future: {one: 'in # min.', other: 'in # min.'},
+                    named: {'0': 'this minute'}
+                },
+                hour: {
+                    past: {one: '# hr. ago', other: '# hr. ago'}, future: {one: 'in # hr.', other: 'in # hr.'},
+                    named: {'0': 'this hour'}
+                },
+                day: {
+                    past: {one: '# day ago', other: '# days ago'}, future: {one: 'in # day', other: 'in # days'},
+                    named: {'-1': 'yesterday', '0': 'today', '1': 'tomorrow'}
+                },
+                week: {
+                    past: {one: '# wk. ago', other: '# wk. ago'}, future: {one: 'in # wk.', other: 'in # wk.'},
+                    named: {'-1': 'last wk.', '0': 'this wk.', '1': 'next wk.'}
+                },
+                month: {
+                    past: {one: '# mo. ago', other: '# mo. ago'}, future: {one: 'in # mo.', other: 'in # mo.'},
+                    named: {'-1': 'last mo.', '0': 'this mo.', '1': 'next mo.'}
+                },
+                year: {
+                    past: {one: '# yr. ago', other: '# yr. ago'}, future: {one: 'in # yr.', other: 'in # yr.'},
+                    named: {'-1': 'last yr.', '0': 'this yr.', '1': 'next yr.'}
+                }
+            },
+            duration: {
+                day: {one: '# day', other: '# days'},
+                hour: {one: '# hr', other: '# hr'},
+                minute: {one: '# min', other: '# min'},
+                second: {one: '# sec', other: '# sec'}
+            }
+        },
+        narrow: {
+            relative: {
+                second: {
+                    past: {one: '#s ago', other: '#s ago'}, future: {one: 'in #s', other: 'in #s'},
+                    named: {'0': 'now'}
+                },
+                minute: {
+                    past: {one: '#m ago', other: '#m ago'}, future: {one: 'in #m', other: 'in #m'},
+                    named: {'0': 'this minute'}
+                },
+                hour: {
+                    past: {one: '#h ago', other: '#h ago'}, future: {one: 'in #h', other: 'in #h'},
+                    named: {'0': 'this hour'}
+                },
+                day: {
+                    past: {one: '#d ago', other: '#d ago'}, future: {one: 'in #d', other: 'in #d'},
+                    named: {'-1': 'yesterday', '0': 'today', '1': 'tomorrow'}
+                },
+                week: {
+                    past: {one: '#w ago', other: '#w ago'}, future: {one: 'in #w', other: 'in #w'},
+                    named: {'-1': 'last wk.', '0': 'this wk.', '1': 'next wk.'}
+                },
+                month: {
+                    past: {one: '#mo ago', other: '#mo ago'}, future: {one: 'in #mo', other: 'in #mo'},
+                    named: {'-1': 'last mo.', '0': 'this mo.', '1': 'next mo.'}
+                },
+                year: {
+                    past: {one: '#y ago', other: '#y ago'}, future: {one: 'in #y', other: 'in #y'},
+                    named: {'-1': 'last yr.', '0': 'this yr.', '1': 'next yr.'}
+                }
+            },
+            duration: {
+                day: {one: '#d', other: '#d'},
+                hour: {one: '#h', other: '#h'},
+                minute: {one: '#m', other: '#m'},
+                second: {one: '#s', other: '#s'}
+            }
+        }
+    },
+    de: {
+        long: {
+            relative: {
+                second: {
+                    past: {one: 'vor # Sekunde', other: 'vor # Sekunden'},
+                    future: {one: 'in # Sekunde', other: 'in # Sekunden'},
+                    named: {'0': 'jetzt'}
+                },
+                minute: {
+                    past: {one: 'vor # Minute', other: 'vor # Minuten'},
+                    future: {one: 'in # Minute', other: 'in # Minuten'},
+                    named: {'0': 'in dieser Minute'}
+                },
+                hour: {
+                    past: {one: 'vor # Stunde', other: 'vor # Stunden'},
+                    future: {one: 'in # Stunde', other: 'in # Stunden'},
+                    named: {'0': 'in dieser Stunde'}
+                },
+                day: {
+                    past: {one: 'vor # Tag', other: 'vor # Tagen'}, future: {one: 'in # Tag', other: 'in # Tagen'},
+                    named: {'-2': 'vorgestern', '-1': 'gestern', '0': 'heute', '1': 'morgen', '2': 'übermorgen'}
+                },
+                week: {
+                    past: {one: 'vor # Woche', other: 'vor # Wochen'},
+                    future: {one: 'in # Woche', other: 'in # Wochen'},
+                    named: {'-1': 'letzte Woche', '0': 'diese Woche', '1': 'nächste Woche'}
+                },
+                month: {
+                    past: {one: 'vor # Monat', other: 'vor # Monaten'},
+                    future: {one: 'in # Monat', other: 'in # Monaten'},
+                    named: {'-1': 'letzten Monat', '0': 'diesen Monat', '1': 'nächsten Monat'}
+                },
+                year: {
+                    past: {one: 'vor # Jahr', other: 'vor # Jahren'}, future: {one: 'in # Jahr', other: 'in # Jahren'},
+                    named: {'-1': 'letztes Jahr', '0': 'dieses Jahr', '1': 'nächstes Jahr'}
+                }
+            },
+            duration: {
+                day: {one: '# Tag', other: '# Tage'},
+                hour: {one: '# Stunde', other: '# Stunden'},
+                minute: {one: '# Minute', other: '# Minuten'},
+                second: {one: '# Sekunde', other: '# Sekunden'}
+            }
+        },
+        short: {
+            relative: {
+                second: {
+                    past: {one: 'vor # Sek.', other: 'vor # Sek.'}, future: {one: 'in # Sek.', other: 'in # Sek.'},
+                    named: {'0': 'jetzt'}
+                },
+                minute: {
+                    past: {one: 'vor # Min.', other: 'vor # Min.'}, future: {one: 'in # Min.', other: 'in # Min.'},
+                    named: {'0': 'in dieser Minute'}
+                },
+                hour: {
+                    past: {one: 'vor # Std.', other: 'vor # Std.'}, future: {one: 'in # Std.', other: 'in # Std.'},
+                    named: {'0': 'in dieser Stunde'}
+                },
+                day: {
+                    past: {one: 'vor # Tag', other: 'vor # Tagen'}, future: {one: 'in # Tag', other: 'in # Tagen'},
+                    named: {'-2': 'vorgestern', '-1': 'gestern', '0': 'heute', '1': 'morgen', '2': 'übermorgen'}
+                },
+                week: {
+                    past: {one: 'vor # Woche', other: 'vor # Wochen'},
+                    future: {one: 'in # Woche', other: 'in # Wochen'},
+                    named: {'-1': 'letzte Woche', '0': 'diese Woche', '1': 'nächste Woche'}
+                },
+                month: {
+                    past: {one: 'vor # Monat', other: 'vor # Monaten'},
+                    future: {one: 'in # Monat', other: 'in # Monaten'},
+                    named: {'-1': 'letzten Monat', '0': 'diesen Monat', '1': 'nächsten Monat'}
+                },
+                year: {
+                    past: {one: 'vor # Jahr', other: 'vor # Jahren'}, future: {one: 'in # Jahr', other: 'in # Jahren'},
+                    named: {'-1': 'letztes Jahr', '0': 'dieses Jahr', '1': 'nächstes Jahr'}
+                }
+            },
+            duration: {
+                day: {one: '# Tg.', other: '# Tg.'},
+                hour: {one: '# Std.', other: '# Std.'},
+                minute: {one: '# Min.', other: '# Min.'},
+                second: {one: '# Sek.', other: '# Sek.'}
+            }
+        },
+        narrow: {
+            relative: {
+                second: {
+                    past: {one: 'vor # s', other: 'vor # s'}, future: {one: 'in # s', other: 'in # s'},
+                    named: {'0': 'jetzt'}
+                },
+                minute: {
+                    past: {one: 'vor # m', other: 'vor # m'}, future: {one: 'in # m', other: 'in # m'},
+                    named: {'0': 'in dieser Minute'}
+                },
+                hour: {
+                    past: {one: 'vor # Std.', other: 'vor # Std.'}, future: {one: 'in # Std.', other: 'in # Std.'},
+                    named: {'0': 'in dieser Stunde'}
+                },
+                day: {
+                    past: {one: 'vor # Tag', other: 'vor # Tagen'}, future: {one: 'in # Tag', other: 'in # Tagen'},
+                    named: {'-2': 'vorgestern', '-1': 'gestern', '0': 'heute', '1': 'morgen', '2': 'übermorgen'}
+                },
+                week: {
+                    past: {one: 'vor # Wo.', other: 'vor # Wo.'}, future: {one: 'in # Wo.', other: 'in # Wo.'},
+                    named: {'-1': 'letzte Woche', '0': 'diese Woche', '1': 'nächste Woche'}
+                },
+                month: {
+                    past: {one: 'vor # Monat', other: 'vor # Monaten'},
+                    future: {one: 'in # Monat', other: 'in # Monaten'},
+                    named: {'-1': 'letzten Monat', '0': 'diesen Monat', '1': 'nächsten Monat'}
+                },
+                year: {
+                    past: {one: 'vor # Jahr', other: 'vor # Jahren'}, future: {one: 'in # Jahr', other: 'in # Jahren'},
+                    named: {'-1': 'letztes Jahr', '0': 'dieses Jahr', '1': 'nächstes Jahr'}
+                }
+            },
+            duration: {
+                day: {one: '# T', other: '# T'},
+                hour: {one: '# Std.', other: '# Std.'},
+                minute: {one: '# Min.', other: '# Min.'},
+                second: {one: '# Sek.', other: '# Sek.'}
+            }
+        }
+    }
+};
+
+interface RelativeTimeFormatOptions {
+    numeric: 'always' | 'auto';
+    style: UnitStyle;
+}
+
+interface IntlRelativeTimeFormat {
+    format(value: number, unit: RelativeTimeUnit): string;
+}
+
+interface IntlWithRelativeTime {
+    RelativeTimeFormat?: new (locales: string[], options: RelativeTimeFormatOptions) => IntlRelativeTimeFormat;
+}
+
+const relativeTimeUnits: RelativeTimeUnit[] = ['second', 'minute', 'hour', 'day', 'week', 'month', 'year'];
+
+const defaultThresholds: RelativeTimeThresholds = {second: 60, minute: 60, hour: 24, day: 7, week: 4, month: 12};
+
+// months and years are averaged over the 400 year cycle of the gregorian calendar
+const millisecondsPerUnit: { [unit: string]: number } = {
+    second: 1000,
+    minute: 60 * 1000,
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30.436875 * 24 * 60 * 60 * 1000,
+    year: 365.2425 * 24 * 60 * 60 * 1000
+};
+
+function fallback(language: LanguageTag, style: UnitStyle): [LanguageTag, FallbackPatterns] {
+    const patterns = fallbackPatterns[language.language];
+    return patterns ? [language, patterns[style]] : [languageTag('en'), fallbackPatterns.en[style]];
+}
+
+function relativeValue(milliseconds: number, thresholds: { [unit: string]: number }): [number, RelativeTimeUnit] {
+    for (const unit of relativeTimeUnits) {
+        const value = Math.round(milliseconds / millisecondsPerUnit[unit]);
+        if (unit === 'year' || Math.abs(value) < thresholds[unit]) {
+            // normalize -0, which would be formatted as past
+            return [value || 0, unit];
+        }
+    }
+    throw 'unreachable';
+}
+
+function relativeFormatter(language: LanguageTag, numeric: 'always' | 'auto',
+                           style: UnitStyle): (value: number, unit: RelativeTimeUnit) => string {
+    const relativeTimeFormat = (Intl as {} as IntlWithRelativeTime).RelativeTimeFormat;
+    if (relativeTimeFormat) {
+        const intlFormat = new relativeTimeFormat([language.intlTag], {numeric, style});
+        return (value, unit) => intlFormat.format(value, unit);
+    }
+    const [patternLanguage, patterns] = fallback(language, style);
+    return (value, unit) => {
+        const unitPatterns = patterns.relative[unit];
+        const named = numeric === 'auto' && unitPatterns.named ? unitPatterns.named[value] : undefined;
+        const forms = value < 0 ? unitPatterns.past : unitPatterns.future;
+        return named || pluralFormat(patternLanguage, forms)(Math.abs(value));
+    };
+}
+
+/**
+ * Creates a formatter for relative times like `3 minutes ago` or `in 2 days`. The unit is picked by the
+ * [[RelativeTimeThresholds]] based on the elapsed time (i.e. `yesterday` means 24 hours ago rather than the
+ * previous calendar day). Uses `Intl.RelativeTimeFormat` if available, otherwise patterns taken from the CLDR, which
+ * are bundled for English and German only.
+ *
+ * **Example:**
+ * ```typescript
+ * const ago = relativeTime(languageTag('en'), {numeric: 'auto'});
+ * ago(-3 * 60 * 1000); // '3 minutes ago'
+ * ago(new Date(2017, 5, 1), new Date(2017, 5, 2)); // 'yesterday'
+ * ```
+ *
+ * @param language the language of the formatted times.
+ * @param options the options of the formatter.
+ * @returns a function accepting either the time as `Date` (relative to `now`, which defaults to the current time) or
+ *     the time relative to now in milliseconds (negative for the past).
+ * @throws the returned function throws an exception if the time is not finite, e.g. for an invalid `Date`.
+ */
+export function relativeTime(language: LanguageTag,
+                             options: RelativeTimeOptions = {}): (time: Date | number, now?: Date) => string {
+    const thresholds = {...defaultThresholds, ...options.thresholds} as { [unit: string]: number };
+    const formatter = relativeFormatter(language, options.numeric || 'always', options.style || 'long');
+    return (time: Date | number, now: Date = new Date()) => {
+        const milliseconds = typeof time === 'number' ? time : time.getTime() - now.getTime();
+        if (!isFinite(milliseconds)) {
+            throw typeof time === 'number' ?
+                `Invalid relative time ${time}` :
+                `Invalid relative time between ${time} and ${now}`;
+        }
+        const [value, unit] = relativeValue(milliseconds, thresholds);
+        return formatter(value, unit);
+    };
+}
+
+interface UnitFormatOptions {
+    style: 'unit';
+    unit: string;
+    unitDisplay: UnitStyle;
+}
+
+const durationUnits = ['day', 'hour', 'minute', 'second'];
+
+function intlUnitFormats(language: LanguageTag, style: UnitStyle): Array<(value: number) => string> | undefined {
+    try {
+        return durationUnits.map(unit => {
+            const options: UnitFormatOptions = {style: 'unit', unit, unitDisplay: style};
+            const numberFormat = new Intl.NumberFormat(language.intlTag, options as {} as Intl.NumberFormatOptions);
+            if (numberFormat.resolvedOptions().style !== 'unit') {
+                throw `Unit formatting not supported`;
+            }
+            return (value: number) => numberFormat.format(value);
+        });
+    } catch (e) {
+        // engines not supporting unit formatting either throw or ignore the style
+        return undefined;
+    }
+}
+
+function unitsFormatter(language: LanguageTag, style: UnitStyle): (seconds: number) => string {
+    const [patternLanguage, patterns] = fallback(language, style);
+    const intlFormats = intlUnitFormats(language, style);
+    const unitFormats = intlFormats ||
+        durationUnits.map(unit => pluralFormat(patternLanguage, patterns.duration[unit]));
+    // the fallback patterns are joined in their own language
+    const units = list(intlFormats ? language : patternLanguage, {type: 'unit', style});
+    return seconds => {
+        const values = [Math.floor(seconds / 86400), Math.floor(seconds / 3600) % 24, Math.floor(seconds / 60) % 60,
+            seconds % 60];
+        const parts = values
+            .map((value, index) => value > 0 ? unitFormats[index](value) : '')
+            .filter(part => part);
+        return units(parts.length > 0 ? parts : [unitFormats[durationUnits.length - 1](0)]);
+    };
+}
+
+function digitalFormatter(language: LanguageTag): (seconds: number) => string {
+    const hours = new Intl.NumberFormat(language.intlTag, {useGrouping: false});
+    const twoDigits = new Intl.NumberFormat(language.intlTag, {minimumIntegerDigits: 2});
+    return seconds => [
+        hours.format(Math.floor(seconds / 3600)),
+        twoDigits.format(Math.floor(seconds / 60) % 60),
+        twoDigits.format(seconds % 60)
+    ].join(':');
+}
+
+/**
+ * Creates a formatter for durations like elapsed times, which are formatted as days, hours, minutes and seconds
+ * (e.g. `1 hr, 20 min`) omitting the units that are `0` and joined by a [[list]] of the type `unit`. Uses the unit
+ * formatting of `Intl.NumberFormat` if available, otherwise patterns taken from the CLDR, which are bundled for English
+ * and German only.
+ *
+ * **Example:**
+ * ```typescript
+ * duration(languageTag('en'))(80 * 60 * 1000);            // '1 hr, 20 min'
+ * duration(languageTag('en'), 'narrow')(80 * 60 * 1000);  // '1h 20m'
+ * duration(languageTag('en'), 'digital')(80 * 60 * 1000); // '1:20:00'
+ * ```
+ *
+ * @param language the language of the formatted durations.
+ * @param style the style of the durations. Defaults to `short`.
+ * @returns a function accepting the duration in milliseconds, which is rounded to seconds.
+ * @throws the returned function throws an exception if the duration is negative or not finite.
+ */
+export function duration(language: LanguageTag, style: DurationStyle = 'short'): (milliseconds: number) => string {
+    const formatter = style === 'digital' ? digitalFormatter(language) : unitsFormatter(language, style);
+    return (milliseconds: number) => {
+        if (!isFinite(milliseconds) || milliseconds < 0) {
+            throw `Invalid duration ${milliseconds}`;
+        }
+        return formatter(Math.round(milliseconds / 1000));
+    };
+}
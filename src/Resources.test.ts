@@ -0,0 +1,178 @@
+import {
+    describeFormatter,
+    format,
+    formatNamed,
+    formatObject,
+    formatRich,
+    formatTyped,
+    LanguageTag,
+    languageTag,
+    loadResources,
+    ordinalFormat,
+    plural,
+    pluralFormat,
+    ResourceError,
+    translate
+} from '.';
+
+const de = languageTag('de');
+
+const translator = translate((lang: LanguageTag) => ({
+    welcome: 'Welcome',
+    greeting: formatObject<{ name: string }>(lang, 'Hello {name}'),
+    taskCount: format<number>(lang, 'You have {1, number} tasks'),
+    terms: formatRich(lang, 'Read the <link>terms</link>, {name}', {name: 'string'}, ['link']),
+    tasks: plural(lang, {
+        one: 'One task',
+        other: n => format<number>(lang, '{1, number} tasks')(n)
+    }),
+    task: {
+        add: 'Add task'
+    }
+}));
+
+const rankingTranslator = translate((lang: LanguageTag) => ({
+    tasks: pluralFormat(lang, {one: '# task', other: '# tasks'}),
+    place: ordinalFormat(lang, {one: '#st', two: '#nd', few: '#rd', other: '#th'})
+}));
+
+function problemsOf(f: () => void): string[] {
+    try {
+        f();
+    } catch (e) {
+        expect(e instanceof ResourceError).toBe(true);
+        return (e as ResourceError).problems.map(p => `${p.language} ${p.key}`);
+    }
+    throw 'No error reported';
+}
+
+describe('loadResources', () => {
+    it('must turn resource messages into the kind of the default messages', () => {
+        const msg = loadResources(translator, {
+            de: {
+                welcome: 'Willkommen',
+                greeting: 'Hallo {name}',
+                taskCount: 'Du hast {1, number} Aufgaben',
+                terms: '{name}, lies die <link>Bedingungen</link>',
+                tasks: '{count, plural, one {Eine Aufgabe} other {# Aufgaben}}',
+                task: {
+                    add: 'Aufgabe hinzufügen'
+                }
+            }
+        }).messagesFor(de);
+        expect(msg.welcome).toBe('Willkommen');
+        expect(msg.greeting({name: 'Anna'})).toBe('Hallo Anna');
+        expect(msg.taskCount(3)).toBe('Du hast 3 Aufgaben');
+        expect(msg.terms({name: 'Anna'}, {link: children => children.length}))
+            .toEqual(['Anna, lies die ', 1]);
+        expect(msg.tasks(1)).toBe('Eine Aufgabe');
+        expect(msg.tasks(3)).toBe('3 Aufgaben');
+        expect(msg.task.add).toBe('Aufgabe hinzufügen');
+    });
+
+    it('must create resource messages by the same function as the default messages', () => {
+        const typed = translate((lang: LanguageTag) => ({
+            owner: formatNamed<{ name: string }>(lang, 'Owner: {name}'),
+            remaining: formatTyped(lang, '{count, number} left', {count: 'number'})
+        }));
+        const msg = loadResources(typed, {
+            de: {owner: 'Besitzer: {name}', remaining: '{count, number} übrig'}
+        }).messagesFor(de);
+        expect(describeFormatter(msg.owner)).toEqual({kind: 'formatNamed', msgFormat: 'Besitzer: {name}'});
+        expect(() => msg.owner({} as { name: string })).toThrow();
+        expect(describeFormatter(msg.remaining))
+            .toEqual({kind: 'formatTyped', msgFormat: '{count, number} übrig', argumentTypes: {count: 'number'}});
+        expect(msg.remaining({count: 1234})).toBe('1.234 übrig');
+    });
+
+    it('must describe plural resource messages with their forms', () => {
+        const msg = loadResources(rankingTranslator, {
+            de: {tasks: '{1, plural, =0 {Keine} one {# Aufgabe} other {# Aufgaben}}', place: '{n, selectordinal, other {#.}}'}
+        }).messagesFor(de);
+        expect(describeFormatter(msg.tasks)).toEqual({
+            kind: 'plural',
+            msgFormat: '{1, plural, =0 {Keine} one {# Aufgabe} other {# Aufgaben}}',
+            forms: {'=0': 'Keine', 'one': '# Aufgabe', 'other': '# Aufgaben'}
+        });
+        expect(describeFormatter(msg.place)).toEqual({kind: 'plural', msgFormat: '{n, selectordinal, other {#.}}'});
+        expect(msg.place(3)).toBe('3.');
+    });
+
+    it('must support partial resources', () => {
+        const msg = loadResources(translator, {de: {task: {add: 'Aufgabe hinzufügen'}}}, {partial: true})
+            .messagesFor(languageTag('de-CH'));
+        expect(msg.task.add).toBe('Aufgabe hinzufügen');
+        expect(msg.welcome).toBe('Welcome');
+    });
+
+    it('must accept plural messages by plural category', () => {
+        const ru = {tasks: {one: '{1, number} задача', few: '{1, number} задачи', many: '# задач', other: '# задачи'}};
+        const msg = loadResources(translator, {ru}, {partial: true}).messagesFor(languageTag('ru'));
+        expect(msg.tasks(21)).toBe('21 задача');
+        expect(msg.tasks(5)).toBe('5 задач');
+    });
+
+    it('must accept exact values and ordinal plural categories', () => {
+        const fr = {tasks: {'=0': 'Aucune tâche', 'one': '# tâche', 'other': '# tâches'}, place: {one: '#er', other: '#e'}};
+        const msg = loadResources(rankingTranslator, {fr}, {partial: true}).messagesFor(languageTag('fr'));
+        expect(msg.tasks(0)).toBe('Aucune tâche');
+        expect(msg.tasks(1)).toBe('1 tâche');
+        expect(msg.place(1)).toBe('1er');
+        expect(msg.place(2)).toBe('2e');
+    });
+
+    it('must report plural categories not matching the language', () => {
+        const resources = {
+            pl: {tasks: {one: '# zadanie', other: '# zadania'}},
+            de: {place: {one: '#.', other: '#.'}}
+        };
+        expect(problemsOf(() => loadResources(rankingTranslator, resources, {partial: true})))
+            .toEqual(['pl tasks', 'de place']);
+    });
+
+    it('must report invalid plural categories', () => {
+        const resources = {
+            de: {tasks: {one: 'Eine Aufgabe'}},
+            fr: {tasks: {single: 'Une tâche', other: '{count} tâches'}},
+            it: {tasks: {one: {nested: 'Un compito'}, other: '# compiti'}}
+        };
+        expect(problemsOf(() => loadResources(translator, resources, {partial: true})))
+            .toEqual(['de tasks', 'fr tasks', 'fr tasks', 'it tasks']);
+    });
+
+    it('must report all problems at once', () => {
+        expect(problemsOf(() => loadResources(translator, {
+            'de': {
+                welcome: 'Willkommen {name}',
+                greeting: 'Hallo {firstName}',
+                taskCount: 'Du hast {1, number Aufgaben',
+                terms: 'Lies die <a>Bedingungen</a>, {name}',
+                tasks: 'Aufgaben',
+                unknown: 'Unbekannt'
+            },
+            'de-CH': {
+                welcome: {nested: 'Grüezi'},
+                greeting: 'Grüezi {name}',
+                taskCount: '{1, number} Uufgabe',
+                terms: 'Lies d <link>Bedingige</link>, {name}',
+                tasks: '{n, plural, other {# Uufgabe}}',
+                task: 'Uufgab'
+            }
+        }))).toEqual([
+            'de welcome',
+            'de greeting',
+            'de taskCount',
+            'de terms',
+            'de tasks',
+            'de task',
+            'de unknown',
+            'de-CH welcome',
+            'de-CH task'
+        ]);
+    });
+
+    it('must reject default messages which are no known formatters', () => {
+        const custom = translate({shout: (s: string) => s.toUpperCase()});
+        expect(problemsOf(() => loadResources(custom, {de: {shout: 'SCHREI'}}))).toEqual(['de shout']);
+    });
+});
@@ -0,0 +1,314 @@
+import {
+    checkPluralForms, describeFormatter, FormatterDescription, formatterLike, ordinalFormat, PluralCategory,
+    PluralForms, pluralFormat
+} from './Format';
+import { LanguageTag, languageTag } from './LanguageTag';
+import { checkArguments, checkTags, messageArguments } from './MessageArguments';
+import { DeepPartial, LocalizedMessages, Messages, Translator } from './Translator';
+
+/**
+ * Translated messages of one language as plain JSON: each value is either a message in
+ * [ICU message syntax]{@link https://formatjs.io/guides/message-syntax/} or a nested namespace.
+ */
+export interface ResourceMessages {
+    [key: string]: string | ResourceMessages;
+}
+
+/**
+ * Maps language tags (e.g. `de-CH`) to the [[ResourceMessages]] of the language.
+ */
+export interface Resources {
+    [language: string]: ResourceMessages;
+}
+
+/**
+ * Options for [[loadResources]].
+ */
+export interface ResourceOptions {
+    /**
+     * If `true` the resources may omit keys, which will be filled up with the parent and default languages like for
+     * [[Translator.partiallySupporting]]. Defaults to `false`.
+     */
+    partial?: boolean;
+}
+
+/**
+ * A problem found by [[loadResources]].
+ */
+export interface ResourceProblem {
+    /**
+     * The language of the resources the problem was found in.
+     */
+    readonly language: string;
+
+    /**
+     * The key of the affected message. Keys of nested namespaces are separated by dots (e.g. `task.add`).
+     */
+    readonly key: string;
+
+    /**
+     * Description of the problem.
+     */
+    readonly problem: string;
+}
+
+/**
+ * Thrown by [[loadResources]] if resources don't match the default messages. Provides all problems found.
+ */
+export class ResourceError extends Error {
+    constructor(readonly problems: ResourceProblem[]) {
+        super(`Invalid resources:\n${problems.map(p => `  ${p.language} ${p.key}: ${p.problem}`).join('\n')}`);
+        Object.setPrototypeOf(this, ResourceError.prototype);
+    }
+}
+
+interface MessageObject {
+    [key: string]: {} | undefined;
+}
+
+type MessageFactory = (language: LanguageTag) => {};
+
+type ProblemReporter = (key: string, problem: string) => void;
+
+function isResourceNamespace(value: {} | undefined): value is MessageObject {
+    return typeof value === 'object' && value !== null;
+}
+
+function isPlural(message: {}): boolean {
+    const description = typeof message === 'function' ? describeFormatter(message) : undefined;
+    return description !== undefined && description.kind === 'plural';
+}
+
+function namespaceFactory(factories: {[key: string]: MessageFactory}): MessageFactory {
+    return language => {
+        const messages: MessageObject = {};
+        Object.keys(factories).forEach(key => messages[key] = factories[key](language));
+        return messages;
+    };
+}
+
+function stringFactory(entry: string, key: string, report: ProblemReporter): MessageFactory | undefined {
+    const argumentNames = Object.keys(messageArguments(entry));
+    if (argumentNames.length > 0) {
+        report(key, `Uses placeholders ${argumentNames.join(', ')} but the default message is a plain string`);
+        return undefined;
+    }
+    return () => entry;
+}
+
+function pluralFactory(description: FormatterDescription, entry: string, key: string,
+                       report: ProblemReporter): MessageFactory | undefined {
+    const argumentTypes = messageArguments(entry);
+    const argumentNames = Object.keys(argumentTypes);
+    if (argumentNames.length !== 1 || argumentTypes[argumentNames[0]] !== 'number') {
+        report(key, 'A plural message must reference exactly one number argument');
+        return undefined;
+    }
+    return language => formatterLike(description, language, entry);
+}
+
+const resourcePluralCategories: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+const exactValuePattern = /^=(\d+(\.\d+)?)$/;
+
+function pluralFormsFactory(defaultMessage: {}, entry: ResourceMessages, key: string, language: LanguageTag,
+                            report: ProblemReporter): MessageFactory | undefined {
+    const forms: PluralForms = {other: ''};
+    const exact: { [value: number]: string } = {};
+    const problems = Object.keys(entry).map(category => {
+        const form = entry[category];
+        const exactValue = exactValuePattern.exec(category);
+        if (!exactValue && resourcePluralCategories.indexOf(category as PluralCategory) < 0) {
+            return `Unknown plural category ${category}`;
+        } else if (typeof form !== 'string') {
+            return `Expected a message for plural category ${category} but found a namespace`;
+        }
+        if (exactValue) {
+            exact[parseFloat(exactValue[1])] = form;
+        } else {
+            forms[category] = form;
+        }
+        const argumentTypes = messageArguments(form);
+        const invalidArguments = Object.keys(argumentTypes)
+            .filter(name => name !== '1' || argumentTypes[name] === 'date');
+        return invalidArguments.length > 0 ?
+            `Plural category ${category} may only reference the number as {1} but uses ${invalidArguments.join(', ')}` :
+            undefined;
+    }).filter(problem => problem !== undefined);
+    const pluralType = describeFormatter(defaultMessage as Function)!.pluralType || 'cardinal';
+    if (entry.other === undefined) {
+        problems.push('Missing plural category other');
+    } else if (problems.length === 0) {
+        try {
+            checkPluralForms(language, forms, pluralType);
+        } catch (e) {
+            problems.push(`${e}`);
+        }
+    }
+    if (problems.length > 0) {
+        problems.forEach(problem => report(key, problem!));
+        return undefined;
+    }
+    if (Object.keys(exact).length > 0) {
+        forms.exact = exact;
+    }
+    return pluralType === 'ordinal' ?
+        (lang: LanguageTag) => ordinalFormat(lang, forms) :
+        (lang: LanguageTag) => pluralFormat(lang, forms);
+}
+
+function formatterFactory(defaultMessage: Function, entry: string, key: string,
+                          report: ProblemReporter): MessageFactory | undefined {
+    const description = describeFormatter(defaultMessage);
+    if (!description) {
+        report(key, 'The default message is a function not created by format(), formatObject() or plural()');
+        return undefined;
+    } else if (description.kind === 'plural') {
+        return pluralFactory(description, entry, key, report);
+    }
+    try {
+        checkArguments(entry, description.argumentTypes || messageArguments(description.msgFormat!));
+        if (description.tags) {
+            checkTags(entry, description.tags);
+        }
+    } catch (e) {
+        report(key, `${e}`);
+        return undefined;
+    }
+    return (language: LanguageTag) => formatterLike(description, language, entry);
+}
+
+function messageFactory(defaultMessage: {}, entry: string | ResourceMessages, key: string, language: LanguageTag,
+                        options: ResourceOptions, report: ProblemReporter): MessageFactory | undefined {
+    if (isResourceNamespace(defaultMessage)) {
+        if (typeof entry === 'string') {
+            report(key, 'Expected a namespace but found a message');
+            return undefined;
+        }
+        return namespaceMessageFactory(defaultMessage, entry, `${key}.`, language, options, report);
+    }
+    try {
+        if (typeof entry !== 'string') {
+            if (isPlural(defaultMessage)) {
+                return pluralFormsFactory(defaultMessage, entry, key, language, report);
+            }
+            report(key, 'Expected a message but found a namespace');
+            return undefined;
+        }
+        return typeof defaultMessage === 'function' ?
+            formatterFactory(defaultMessage, entry, key, report) :
+            stringFactory(entry, key, report);
+    } catch (e) {
+        report(key, `Invalid message: ${e.message || e}`);
+        return undefined;
+    }
+}
+
+function namespaceMessageFactory(defaults: MessageObject, entries: ResourceMessages, prefix: string,
+                                 language: LanguageTag, options: ResourceOptions,
+                                 report: ProblemReporter): MessageFactory {
+    const factories: {[key: string]: MessageFactory} = {};
+    for (const key of Object.keys(defaults)) {
+        const entry = entries[key];
+        if (entry === undefined) {
+            if (!options.partial) {
+                report(prefix + key, 'Missing translation');
+            }
+        } else {
+            const factory = messageFactory(defaults[key]!, entry, prefix + key, language, options, report);
+            if (factory) {
+                factories[key] = factory;
+            }
+        }
+    }
+    Object.keys(entries)
+        .filter(key => !defaults.hasOwnProperty(key))
+        .forEach(key => report(prefix + key, 'Unknown key'));
+    return namespaceFactory(factories);
+}
+
+/**
+ * Turns the [[ResourceMessages]] of a single language into a translation of the messages of `translator`, which can be
+ * passed to [[Translator.partiallySupportingNested]]. The messages are converted and validated like by
+ * [[loadResources]].
+ *
+ * @param translator the translator providing the default messages.
+ * @param language the language of the resource messages.
+ * @param messages the resource messages.
+ * @param options options for validating the resources.
+ * @returns the translation.
+ * @throws a [[ResourceError]] listing all problems if the resources don't match the default messages.
+ */
+export function resourceTranslation<M extends Messages>(translator: Translator<M>,
+                                                        language: string,
+                                                        messages: ResourceMessages,
+                                                        options: ResourceOptions = {}
+): LocalizedMessages<DeepPartial<M>> {
+    const problems: ResourceProblem[] = [];
+    const factory = messagesFactory(translator, language, messages, options, problems);
+    if (problems.length > 0) {
+        throw new ResourceError(problems);
+    }
+    return (lang: LanguageTag) => factory(lang) as DeepPartial<M>;
+}
+
+function messagesFactory<M extends Messages>(translator: Translator<M>, language: string, messages: ResourceMessages,
+                                             options: ResourceOptions, problems: ResourceProblem[]): MessageFactory {
+    const report = (key: string, problem: string) => problems.push({language, key, problem});
+    const tag = languageTag(language);
+    const defaults = translator.defaultMessagesFor(tag) as {} as MessageObject;
+    return namespaceMessageFactory(defaults, messages, '', tag, options, report);
+}
+
+/**
+ * Provides a new translator additionally supporting the languages from JSON resources, e.g. files exported from a
+ * translation management system.
+ *
+ * Each resource message is turned into the same kind of message as the corresponding default message of the
+ * `translator`:
+ *
+ * - a plain `string` if the default message is a string,
+ * - a function created by the same function as the default message (e.g. [[formatNamed]]), referencing the same
+ *   arguments as the default message. [[formatTyped]] and [[formatRich]] messages are checked against the declared
+ *   arguments and tags of the default message,
+ * - a function accepting a number if the default message has been created by [[plural]] or [[pluralFormat]]. The
+ *   resource message must either use a plural argument like `{count, plural, one {# task} other {# tasks}}` or be
+ *   an object providing a message per plural category like `{"one": "# task", "other": "# tasks"}` (see
+ *   [[pluralFormat]]). Such an object may additionally provide messages for exact values like `"=0"` and must provide
+ *   exactly the categories required by the language of the resources (see [[checkPluralForms]]). The ordinal rules
+ *   are used if the default message has been created by [[ordinalFormat]].
+ *
+ * **Example:**
+ * ```typescript
+ * const translator = loadResources(translate((lang: LanguageTag) => ({
+ *     welcome: 'Welcome',
+ *     greeting: formatObject<{name: string}>(lang, 'Hello {name}')
+ * })), {
+ *     de: { welcome: 'Willkommen', greeting: 'Hallo {name}' }
+ * });
+ * ```
+ *
+ * Note that the messages are validated against the default messages created for the language of the resources.
+ *
+ * @param translator the translator providing the default messages and existing translations.
+ * @param resources the translations to add.
+ * @param options options for validating the resources.
+ * @returns A new translator additionally supporting the languages of the resources.
+ * @throws a [[ResourceError]] listing all problems if the resources don't match the default messages: missing keys,
+ *     unknown keys, invalid messages and messages whose placeholders don't match the default message.
+ */
+export function loadResources<M extends Messages>(translator: Translator<M>,
+                                                  resources: Resources,
+                                                  options: ResourceOptions = {}): Translator<M> {
+    const problems: ResourceProblem[] = [];
+    const factories = Object.keys(resources).map(language => ({
+        tag: languageTag(language),
+        factory: messagesFactory(translator, language, resources[language], options, problems)
+    }));
+    if (problems.length > 0) {
+        throw new ResourceError(problems);
+    }
+    return factories.reduce(
+        (result, {tag, factory}) => result.partiallySupportingNested(tag, (language: LanguageTag) => factory(language)),
+        translator);
+}
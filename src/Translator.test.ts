@@ -1,11 +1,36 @@
 import {
+    BundleNotLoadedError,
+    format,
     LanguageTag,
     languageTag,
+    onPreferredLanguageChange,
     pickPreferredLanguage,
     preferredLanguage,
+    runWithFormats,
     selectPreferredLanguage,
+    setPreferredLanguage,
     translate
 } from '.';
+import * as typedIntl from '.';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Type checks a source file in this directory and returns the messages of all compile errors.
+ */
+let compileCheckProgram: ts.Program | undefined;
+
+function compileErrors(source: string): string[] {
+    const fileName = path.join(__dirname, 'compile-check.ts');
+    const options: ts.CompilerOptions = {noEmit: true, lib: ['lib.es2015.d.ts', 'lib.dom.d.ts'], types: ['node']};
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (name: string, target: ts.ScriptTarget) =>
+        name === fileName ? ts.createSourceFile(name, source, target) : getSourceFile(name, target);
+    compileCheckProgram = ts.createProgram([fileName], options, host, compileCheckProgram);
+    return ts.getPreEmitDiagnostics(compileCheckProgram)
+        .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
 
 const en = languageTag('en');
 const de = languageTag('de');
@@ -69,6 +94,17 @@ describe('Translator', () => {
         expect(msg.cancel).toBe(deMessages.cancel);
     });
 
+    it('must match translations by likely subtags and CLDR parent locales', () => {
+        const colours = translate({colour: 'color', pavement: 'sidewalk'})
+            .partiallySupporting('en-GB', {colour: 'colour', pavement: 'pavement'})
+            .supporting('zh', {colour: '颜色', pavement: '人行道'})
+            .supporting('zh-Hant', {colour: '顏色', pavement: '人行道'});
+        expect(colours.messagesFor(languageTag('en-AU')).colour).toBe('colour');
+        expect(colours.messagesFor(languageTag('zh-TW')).colour).toBe('顏色');
+        expect(colours.messagesFor(languageTag('zh-HK')).colour).toBe('顏色');
+        expect(colours.messagesFor(languageTag('zh-CN')).colour).toBe('颜色');
+    });
+
     it('Must provide base and extended tests', () => {
         const msg = messageOverridesTranslator.messagesFor(de);
         expect(msg.welcome).toBe(deMessageOverrides.welcome);
@@ -87,6 +123,21 @@ describe('Translator', () => {
         expect(enMsg.welcome).toBe(enMessages.welcome);
     });
 
+    it('Must keep the messages for multiple languages cached', () => {
+        const cachedTranslator = translate(enMessages).partiallySupporting(de, deMessages).caching({maxSize: 2});
+        const enMsg = cachedTranslator.messagesFor(en);
+        const deMsg = cachedTranslator.messagesFor(de);
+        expect(cachedTranslator.messagesFor(en)).toBe(enMsg);
+        expect(cachedTranslator.messagesFor(de)).toBe(deMsg);
+        expect(cachedTranslator.cacheStats()).toEqual({size: 2, maxSize: 2, hits: 2, misses: 2, evictions: 0});
+
+        cachedTranslator.invalidate(de);
+        expect(cachedTranslator.messagesFor(de)).not.toBe(deMsg);
+        cachedTranslator.clear();
+        expect(cachedTranslator.messagesFor(en)).toEqual(enMsg);
+        expect(cachedTranslator.cacheStats()).toEqual({size: 1, maxSize: 2, hits: 2, misses: 4, evictions: 0});
+    });
+
     it('Must provide the requested language to the message generators', () => {
         const tag = languageTag('de-Latn-CH-1901');
         const msg = formattedMessagesTranslator.messagesFor(tag);
@@ -112,6 +163,14 @@ describe('Translator', () => {
         expect(pickedFallback.tag).toBe('it-CH');
     });
 
+    it('must pick preferred languages by their distance to the translations', () => {
+        const translations = [languageTag('de'), languageTag('sr')];
+        expect(pickPreferredLanguage(translations, [languageTag('sr-Latn'), languageTag('gsw')]).tag).toBe('gsw');
+        expect(pickPreferredLanguage(translations, [languageTag('gsw')], 5).tag).toBe('gsw');
+        expect(pickPreferredLanguage(translations, [languageTag('sr-Latn'), languageTag('gsw')], 5).tag)
+            .toBe('sr-Latn');
+    });
+
     it('must init the global preferred translation value', () => {
         selectPreferredLanguage(['en', 'de', 'de-CH'], ['fr-CH', 'de-Latn-CH-1901', 'en']);
         expect(preferredLanguage()!.tag).toEqual('de-Latn-CH-1901');
@@ -125,4 +184,189 @@ describe('Translator', () => {
         selectPreferredLanguage(['de']);
         expect(preferredLanguage()!.tag).toEqual('en-US');
     });
+
+    it('must notify listeners about changes of the preferred language', () => {
+        setPreferredLanguage(en);
+        const listener = jest.fn();
+        const unsubscribe = onPreferredLanguageChange(listener);
+
+        setPreferredLanguage(de);
+        setPreferredLanguage(de);
+        selectPreferredLanguage(['en', 'de'], ['en-US']);
+        expect(listener.mock.calls).toEqual([[de, en], [languageTag('en-US'), de]]);
+
+        unsubscribe();
+        setPreferredLanguage(en);
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('must provide live messages resolving against the current preferred language', () => {
+        setPreferredLanguage(en);
+        const msg = translator.live();
+        expect(translator.live()).toBe(msg);
+        expect(msg.welcome).toBe(enMessages.welcome);
+        expect(Object.keys(msg)).toEqual(['welcome', 'cancel', 'ok']);
+
+        setPreferredLanguage(de);
+        expect(msg.welcome).toBe(deMessages.welcome);
+        expect(msg.ok).toBe(enMessages.ok);
+    });
+
+    it('must provide live messages before a language is set', () => {
+        // without a navigator language there is no preferred language initially
+        Object.defineProperty(navigator, 'language', {value: undefined, configurable: true});
+        jest.resetModules();
+        const fresh = require('.') as typeof typedIntl;
+        delete (navigator as {} as { language?: string }).language;
+        expect(fresh.currentLanguage()).toBeUndefined();
+        let builds = 0;
+        const msg = fresh.translate((lang: LanguageTag) => {
+            builds++;
+            return {welcome: lang.tag === 'de' ? 'Willkommen' : 'Welcome', ok: 'OK'};
+        }).extending(fresh.translate({cancel: 'Cancel'})).live();
+        expect(Object.keys(msg)).toEqual(['cancel', 'welcome', 'ok']);
+        const buildsForKeys = builds;
+
+        fresh.setPreferredLanguage(fresh.languageTag('de'));
+        expect(msg.welcome).toBe('Willkommen');
+        expect(msg.cancel).toBe('Cancel');
+        expect(builds).toBe(buildsForKeys + 1);
+    });
+
+    it('must create the messages with the formats of the translator', () => {
+        const price = (currency: string) => ({number: {price: {style: 'currency', currency}}});
+        const priceTranslator = translate(lang => ({price: format<number>(lang, '{1, number, price}')}))
+            .withFormats(price('EUR'))
+            .withFormats(price('CHF'), 'de-CH');
+
+        expect(priceTranslator.messagesFor(languageTag('de-DE')).price(3)).toBe('3,00\u00a0€');
+        expect(priceTranslator.messagesFor(languageTag('de-CH')).price(3)).toBe('CHF\u00a03.00');
+        expect(priceTranslator.defaultMessagesFor(languageTag('de-CH')).price(3)).toBe('CHF\u00a03.00');
+        expect(priceTranslator.caching({maxEntries: 1}).messagesFor(en).price(3)).toBe('€3.00');
+        expect(format<number>(en, '{1, number, price}')(3)).toBe('3');
+    });
+
+    it('must not apply scoped formats to cached messages', () => {
+        const eur = {number: {price: {style: 'currency', currency: 'EUR'}}};
+        const usd = {number: {price: {style: 'currency', currency: 'USD'}}};
+        const priceTranslator = translate(lang => ({price: format<number>(lang, '{1, number, price}')}))
+            .withFormats(eur);
+        expect(priceTranslator.messagesFor(en).price(3)).toBe('€3.00');
+        expect(runWithFormats(usd, () => priceTranslator.messagesFor(en).price(3))).toBe('€3.00');
+        expect(runWithFormats(usd, () => format<number>(en, '{1, number, price}')(3))).toBe('$3.00');
+    });
+
+    describe('partial translations', () => {
+        const defaults = `import { translate } from './Translator';
+            const translator = translate({title: 'Tasks', count: (n: number) => \`\${n} tasks\`});`;
+
+        it('must accept messages of the types of the default messages', () => {
+            expect(compileErrors(`${defaults} translator.partiallySupporting('de', {count: (n: number) => ''});`))
+                .toEqual([]);
+        });
+
+        it('must not accept a string for a function message', () => {
+            expect(compileErrors(`${defaults} translator.partiallySupporting('de', {count: 'Aufgaben'});`))
+                .toHaveLength(1);
+            expect(compileErrors(`${defaults} translator.partiallySupportingAsync('de',
+                () => Promise.resolve({count: 'Aufgaben'}));`)).toHaveLength(1);
+        });
+    });
+
+    describe('nested messages', () => {
+        const nestedTranslator = translate({
+            title: 'Tasks',
+            task: {
+                add: 'Add task',
+                remove: 'Remove task',
+                count: (n: number) => `${n} tasks`
+            }
+        }).partiallySupportingNested(de, {
+            task: {
+                add: 'Aufgabe hinzufügen',
+                remove: 'Aufgabe entfernen'
+            }
+        }).partiallySupportingNested('de-CH', {
+            task: {
+                add: 'Uufgab hinzuefüege'
+            }
+        });
+
+        it('must fallback per message inside of namespaces', () => {
+            const msg = nestedTranslator.messagesFor(languageTag('de-CH'));
+            expect(msg.title).toBe('Tasks');
+            expect(msg.task.add).toBe('Uufgab hinzuefüege');
+            expect(msg.task.remove).toBe('Aufgabe entfernen');
+            expect(msg.task.count(3)).toBe('3 tasks');
+        });
+
+        it('must merge namespaces of extended messages', () => {
+            const extended = translate({
+                task: {
+                    rename: 'Rename task'
+                }
+            }).supporting('de', {
+                task: {
+                    rename: 'Aufgabe umbenennen'
+                }
+            }).extending(nestedTranslator);
+            const msg = extended.messagesFor(de);
+            expect(msg.task.rename).toBe('Aufgabe umbenennen');
+            expect(msg.task.add).toBe('Aufgabe hinzufügen');
+            expect(msg.title).toBe('Tasks');
+        });
+    });
+
+    describe('asynchronously loaded translations', () => {
+        const loadDe = jest.fn(() => Promise.resolve({__esModule: true, default: deMessages}));
+        const loadDeCh = jest.fn(() => Promise.resolve(deChMessages));
+        const asyncTranslator = translate(enMessages)
+            .partiallySupportingAsync(de, loadDe)
+            .partiallySupportingAsync('de-CH', loadDeCh);
+        const extendingAsyncTranslator = translate(enMessageOverrides)
+            .supportingAsync('de', () => Promise.resolve(deMessageOverrides))
+            .extending(asyncTranslator);
+
+        it('must signal that a translation has not been loaded yet', () => {
+            expect(asyncTranslator.messagesFor(en).welcome).toBe(enMessages.welcome);
+            let error: {} | undefined;
+            try {
+                asyncTranslator.messagesFor(de);
+            } catch (e) {
+                error = e;
+            }
+            expect(error instanceof BundleNotLoadedError).toBe(true);
+            expect((error as BundleNotLoadedError).language).toBe(de);
+        });
+
+        it('must load the translations of the language and its parents', () => {
+            return asyncTranslator.load(languageTag('de-CH')).then(msg => {
+                expect(msg.welcome).toBe(deChMessages.welcome);
+                expect(msg.cancel).toBe(deMessages.cancel);
+                expect(asyncTranslator.messagesFor(de).welcome).toBe(deMessages.welcome);
+                return asyncTranslator.load(de);
+            }).then(() => {
+                expect(loadDe).toHaveBeenCalledTimes(1);
+                expect(loadDeCh).toHaveBeenCalledTimes(1);
+            });
+        });
+
+        it('must load the translations of extended providers', () => {
+            return extendingAsyncTranslator.load(de).then(msg => {
+                expect(msg.welcome).toBe(deMessageOverrides.welcome);
+                expect(msg.cancel).toBe(deMessages.cancel);
+            });
+        });
+
+        it('must retry failed loads', () => {
+            const load = jest.fn()
+                .mockImplementationOnce(() => Promise.reject('network error'))
+                .mockImplementationOnce(() => Promise.resolve(deMessages));
+            const failingTranslator = translate(enMessages).partiallySupportingAsync(de, load);
+            return failingTranslator.load(de)
+                .then(() => fail('must not succeed'), error => expect(error).toBe('network error'))
+                .then(() => failingTranslator.load(de))
+                .then(msg => expect(msg.welcome).toBe(deMessages.welcome));
+        });
+    });
 });
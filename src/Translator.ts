@@ -1,11 +1,30 @@
-import { LanguageTag, languageTag } from './LanguageTag';
+import { DiagnosticsEvent, DiagnosticsHandler, diagnosticsHandler } from './Diagnostics';
+import { FormatOptions, runWithFormats } from './Format';
+import { languageContext } from './LanguageContext';
+import { LanguageTag, languageMatchThreshold, languageTag } from './LanguageTag';
+import { CacheOptions, CacheStats, MessageCache } from './MessageCache';
 
 /**
  * Messages are defined as simple JavaScript objects where the property key is the message key and the value is the
  * message. Messages should either be simple `string`s or functions returning a `string`.
+ *
+ * Related messages may be grouped into namespaces by nesting [[Messages]] objects, e.g.
+ * `{ task: { add: 'Add task', remove: 'Remove task' } }`.
  */
 export type Messages = {}
 
+/**
+ * A [[Messages]] object where every key may be omitted, including the keys of nested namespaces.
+ *
+ * **Note:** Due to the lack of conditional types in the TypeScript version used here, the compiler doesn't check
+ * the messages provided in a `DeepPartial` at all: e.g. a string is accepted where a function message is expected,
+ * which fails as soon as the message is called. Thus prefer `Partial<M>` and
+ * [[Translator.partiallySupporting]] unless you need to translate namespaces partially.
+ */
+export type DeepPartial<M> = {
+    [K in keyof M]?: DeepPartial<M[K]>;
+};
+
 /**
  * Sometimes you may need the current language when defining [[Messages]], for example to define language dependent
  * formatting. Instead of directly providing a [[Messages]] object you may provide a function of this type then.
@@ -25,6 +44,111 @@ function localizedMessages<M extends Messages>(messages: MessagesParameter<M>):
     }
 }
 
+interface MessageObject {
+    [key: string]: {} | undefined;
+}
+
+function isNamespace(value: {} | undefined): value is MessageObject {
+    return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Lists the keys of all messages including those of nested namespaces, separated by dots (e.g. `task.add`).
+ */
+function messageKeys(messages: MessageObject, prefix: string = ''): string[] {
+    return Object.keys(messages)
+        .filter(key => messages[key] !== undefined)
+        .map(key => {
+            const message = messages[key];
+            return isNamespace(message) ? messageKeys(message, `${prefix}${key}.`) : [prefix + key];
+        })
+        .reduce((keys, namespaceKeys) => keys.concat(namespaceKeys), []);
+}
+
+/**
+ * Merges `override` into `base` on a per message basis: nested namespaces are merged recursively, so that messages
+ * not provided by `override` are kept from `base`.
+ */
+function mergeMessages<M extends Messages>(base: M, override: DeepPartial<M>): M {
+    const merged: MessageObject = { ...base as object };
+    const overrideMessages = override as {} as MessageObject;
+    for (const key of Object.keys(overrideMessages)) {
+        const baseValue = merged[key];
+        const overrideValue = overrideMessages[key];
+        if (isNamespace(baseValue) && isNamespace(overrideValue)) {
+            merged[key] = mergeMessages(baseValue, overrideValue);
+        } else if (overrideValue !== undefined) {
+            merged[key] = overrideValue;
+        }
+    }
+    return merged as {} as M;
+}
+
+/**
+ * The result of loading a translation bundle asynchronously: either the translation itself or a module providing the
+ * translation as default export, like the result of a dynamic `import()`.
+ */
+export type TranslationModule<T> = MessagesParameter<T> | { default: MessagesParameter<T> };
+
+/**
+ * Loads a translation bundle asynchronously, e.g. `() => import('./TaskList.de.msg')`.
+ */
+export type BundleLoader<T> = () => Promise<TranslationModule<T>>;
+
+/**
+ * Thrown by [[MessageProvider.messagesFor]] if messages are requested for a language whose translation bundle has not
+ * been loaded yet. Use [[MessageProvider.load]] to load it before.
+ */
+export class BundleNotLoadedError extends Error {
+    /**
+     * @param language the language of the translation bundle that has not been loaded yet.
+     */
+    constructor(readonly language: LanguageTag) {
+        super(`The translation bundle for ${language.tag} has not been loaded yet`);
+        Object.setPrototypeOf(this, BundleNotLoadedError.prototype);
+    }
+}
+
+function isModule<T>(loaded: TranslationModule<T>): loaded is { default: MessagesParameter<T> } {
+    const candidate = loaded as { __esModule?: boolean, default?: {} };
+    return typeof loaded === 'object' && candidate.default !== undefined &&
+        (candidate.__esModule === true || Object.prototype.toString.call(loaded) === '[object Module]');
+}
+
+/**
+ * The translation of a single language, which may need to be loaded asynchronously.
+ */
+class TranslationBundle<T extends Messages> {
+    private loading?: Promise<void> = undefined;
+
+    constructor(readonly language: LanguageTag,
+                private translation?: LocalizedMessages<T>,
+                private readonly loader?: BundleLoader<T>) {}
+
+    messages(): LocalizedMessages<T> {
+        if (!this.translation) {
+            throw new BundleNotLoadedError(this.language);
+        }
+        return this.translation;
+    }
+
+    load(): Promise<void> {
+        if (this.translation) {
+            return Promise.resolve();
+        } else if (!this.loading) {
+            this.loading = this.loader!().then(
+                loaded => {
+                    this.translation = localizedMessages(isModule(loaded) ? loaded.default : loaded);
+                },
+                error => {
+                    this.loading = undefined;
+                    throw error;
+                });
+        }
+        return this.loading;
+    }
+}
+
 /**
  * Either a [[LanguageTag]] or a `string` which can be provided to [[languageTag]]().
  */
@@ -48,15 +172,79 @@ export interface MessageProvider<M extends Messages> {
      * @returns a message object for the specified language.
      *  Missing identifiers will be filled up with those from parent languages (see [[LanguageTag.parent]]) or the
      *     default language.
+     * @throws a [[BundleNotLoadedError]] if a translation required for the language is loaded asynchronously and has
+     *     not been [[load]]ed yet.
      */
     messagesFor(language: LanguageTag): Readonly<M>;
 
     /**
-     * Like [[messagesFor]] but uses [[preferredLanguage]] as language.
+     * Loads all asynchronously loaded translations required for the specified language, including those of the
+     * parent languages and of extended message providers, and provides the messages afterwards.
+     *
+     * @param language the language to return the best matching translation for.
+     * @returns a promise of the message object for the specified language, see [[messagesFor]].
+     */
+    load(language: LanguageTag): Promise<Readonly<M>>;
+
+    /**
+     * Like [[messagesFor]] but uses the [[currentLanguage]] as language.
      */
     messages(): Readonly<M>;
+
+    /**
+     * Provides a messages object that always resolves its messages against the [[currentLanguage]].
+     *
+     * In contrast to the object returned by [[messages]] it is save to keep this object around (e.g. in a module
+     * level constant) even if the preferred language may change later on using [[setPreferredLanguage]] or
+     * the object is used inside [[runWithLanguage]].
+     *
+     * @returns a messages object whose properties provide the messages for the [[currentLanguage]].
+     */
+    live(): Readonly<M>;
+
+    /**
+     * Drops the cached messages for the specified language, so that they will be rebuilt on the next request.
+     *
+     * @param language the language to drop the cached messages for.
+     */
+    invalidate(language: LanguageTag): void;
+
+    /**
+     * Drops the cached messages for all languages.
+     */
+    clear(): void;
+
+    /**
+     * Provides statistics about the message cache of this provider, e.g. to tune its [[CacheOptions]].
+     */
+    cacheStats(): CacheStats;
+
+    /**
+     * Describes how this provider is composed, e.g. to allow tools to walk all translators of an application.
+     */
+    inspect(): ProviderStructure;
+}
+
+/**
+ * Describes a [[MessageProvider]] which is a [[Translator]].
+ */
+export interface TranslatorStructure {
+    readonly translator: Translator<Messages>;
+}
+
+/**
+ * Describes a [[MessageProvider]] created by [[Translator.extending]].
+ */
+export interface ExtendingStructure {
+    readonly base: MessageProvider<Messages>;
+    readonly extension: MessageProvider<Messages>;
 }
 
+/**
+ * Describes how a [[MessageProvider]] is composed.
+ */
+export type ProviderStructure = TranslatorStructure | ExtendingStructure;
+
 /**
  * Typesafe builder for a [[MessageProvider]].
  */
@@ -65,6 +253,7 @@ export interface Translator<M extends Messages> extends MessageProvider<M> {
      * Provides a new translator additionally partially supporting the specified language. Partially supporting a
      * language means that not for all keys messages are defined. When retrieving translations using
      * [[MessageProvider.messagesFor]] these missing keys will be filled up with the parent and default languages.
+     * Namespaces have to be translated completely, use [[partiallySupportingNested]] to omit keys of namespaces.
      *
      * @param language
      * @param translation
@@ -73,6 +262,26 @@ export interface Translator<M extends Messages> extends MessageProvider<M> {
      */
     partiallySupporting(language: Language, translation: MessagesParameter<Partial<M>>): Translator<M>
 
+    /**
+     * Like [[partiallySupporting]] but also the keys of nested namespaces may be omitted, which are filled up with the
+     * parent and default languages message by message.
+     *
+     * **Note:** The compiler can't check the messages of a [[DeepPartial]], so a message of the wrong type (e.g. a
+     * string instead of a function) is only noticed when it is used.
+     *
+     * **Example:**
+     * ```typescript
+     * translate({task: {add: 'Add task', remove: 'Remove task'}})
+     *     .partiallySupportingNested('de', {task: {add: 'Aufgabe hinzufügen'}});
+     * ```
+     *
+     * @param language
+     * @param translation
+     *  messages object which may not provide all of the keys available in the default translation.
+     * @returns A new translator supporting the specified language.
+     */
+    partiallySupportingNested(language: Language, translation: MessagesParameter<DeepPartial<M>>): Translator<M>
+
     /**
      * Provides a new translator additionally supporting a translation of the specified language.
      * The provided [[Messages} object must specify all keys already defined for the default language of this
@@ -85,39 +294,166 @@ export interface Translator<M extends Messages> extends MessageProvider<M> {
      */
     supporting(language: string, translation: MessagesParameter<M>): Translator<M>
 
+    /**
+     * Like [[partiallySupporting]] but loads the translation asynchronously on the first call to
+     * [[MessageProvider.load]] for a language requiring it. This allows to split translations into separate bundles,
+     * which are only loaded for users requiring them.
+     *
+     * @param language
+     * @param load loads the translation, e.g. `() => import('./TaskList.de-CH.msg')`.
+     * @returns A new translator supporting the specified language.
+     */
+    partiallySupportingAsync(language: Language, load: BundleLoader<Partial<M>>): Translator<M>
+
+    /**
+     * Like [[partiallySupportingNested]] but loads the translation asynchronously like [[partiallySupportingAsync]].
+     *
+     * @param language
+     * @param load loads the translation, e.g. `() => import('./TaskList.de-CH.msg')`.
+     * @returns A new translator supporting the specified language.
+     */
+    partiallySupportingNestedAsync(language: Language, load: BundleLoader<DeepPartial<M>>): Translator<M>
+
+    /**
+     * Like [[supporting]] but loads the translation asynchronously on the first call to [[MessageProvider.load]] for a
+     * language requiring it.
+     *
+     * **Example:**
+     * ```typescript
+     * const translator = translate(enMessages).supportingAsync('de', () => import('./TaskList.de.msg'));
+     * translator.load(languageTag('de-CH')).then(msg => render(msg));
+     * ```
+     *
+     * @param language
+     * @param load loads the translation, e.g. `() => import('./TaskList.de.msg')`.
+     * @returns A new translator supporting the specified language.
+     */
+    supportingAsync(language: Language, load: BundleLoader<M>): Translator<M>
+
     /**
      * Provides a [[MessageProvider]] supporting the keys from `base` and the keys from this translator.
-     * Messages from this translator will override messages with the same keys in `base`.
+     * Messages from this translator will override messages with the same keys in `base`. Namespaces available in both
+     * are merged.
      * @param base provider of base messages.
+     * @param cacheOptions options for the message cache of the combined provider.
      * @returns the combined [[MessageProvider]]
      */
-    extending<B extends Messages>(base: MessageProvider<B>): MessageProvider<B & M>
-}
+    extending<B extends Messages>(base: MessageProvider<B>, cacheOptions?: CacheOptions): MessageProvider<B & M>
+
+    /**
+     * Provides the default messages of this translator without any translations applied.
+     *
+     * @param language the language passed to [[LocalizedMessages]].
+     * @returns the default messages.
+     */
+    defaultMessagesFor(language: LanguageTag): Readonly<M>
+
+    /**
+     * @returns the languages this translator provides (partial) translations for.
+     */
+    languages(): LanguageTag[]
+
+    /**
+     * Provides the translation registered for exactly the specified language without filling up missing keys.
+     *
+     * @param language the language of the translation, which is also passed to [[LocalizedMessages]].
+     * @returns the translation or `undefined` if there is no translation for the language.
+     * @throws a [[BundleNotLoadedError]] if the translation has not been loaded yet.
+     */
+    translationFor(language: LanguageTag): DeepPartial<M> | undefined
+
+    /**
+     * Provides a new translator using the specified options for its message cache.
+     *
+     * @param cacheOptions options for the message cache.
+     * @returns A new translator with the same translations as this one.
+     */
+    caching(cacheOptions: CacheOptions): Translator<M>
 
-class MessageCache<M extends Messages> {
-    constructor(readonly language: LanguageTag, readonly messages: Readonly<M>) {}
+    /**
+     * Provides a new translator reporting fallbacks to the specified handler instead of the global
+     * [[diagnosticsHandler]].
+     *
+     * @param handler the handler to report to.
+     * @param defaultLanguage the language of the default messages, which is not reported as
+     *  [[NoMatchingTranslationEvent]]. Defaults to `en`.
+     * @returns A new translator with the same translations as this one.
+     */
+    withDiagnostics(handler: DiagnosticsHandler, defaultLanguage?: Language): Translator<M>
+
+    /**
+     * Provides a new translator creating its messages with the specified formats merged into the [[formats]] of the
+     * language, i.e. formatters created by [[LocalizedMessages]] functions without explicit format options use them.
+     * Like translations the formats of a language also apply to the languages inheriting from it.
+     *
+     * **Example:**
+     * ```typescript
+     * const translator = translate(lang => ({price: format<number>(lang, '{1, number, price}')}))
+     *     .withFormats({number: {price: {style: 'currency', currency: 'EUR'}}})
+     *     .withFormats({number: {price: {style: 'currency', currency: 'CHF'}}}, 'de-CH');
+     * translator.messagesFor(languageTag('de-CH')).price(3); // 'CHF 3.00'
+     * ```
+     *
+     * @param formatOptions the formats to add.
+     * @param language the language to add the formats for. Defaults to all languages.
+     * @returns A new translator with the same translations as this one.
+     */
+    withFormats(formatOptions: FormatOptions, language?: Language): Translator<M>
 }
 
 /**
- * A [[MessageProvider]] which caches messages for the last queried language.
+ * A [[MessageProvider]] which caches messages per language.
  */
 abstract class CachedMessageProvider<M extends Messages> implements MessageProvider<M> {
-    private messageCache?: MessageCache<M> = undefined;
+    private readonly messageCache: MessageCache<Readonly<M>>;
+    private liveMessages?: Readonly<M> = undefined;
+
+    constructor(cacheOptions?: CacheOptions) {
+        this.messageCache = new MessageCache<Readonly<M>>(cacheOptions);
+    }
 
     messagesFor(language: LanguageTag): Readonly<M> {
-        if (this.messageCache && this.messageCache.language === language) {
-            return this.messageCache.messages;
-        } else {
-            const messages = this.buildMessages(language);
-            this.messageCache = new MessageCache(language, messages);
-            return messages;
-        }
+        return this.messageCache.get(language, () => this.buildMessages(language));
     }
 
     messages(): Readonly<M> {
-        return this.messagesFor(preferredLanguage()!);
+        return this.messagesFor(currentLanguage()!);
+    }
+
+    live(): Readonly<M> {
+        if (!this.liveMessages) {
+            const liveMessages = {};
+            this.messageKeys().forEach(key => Object.defineProperty(liveMessages, key, {
+                enumerable: true,
+                get: () => (this.messages() as {} as {[key: string]: {}})[key]
+            }));
+            this.liveMessages = liveMessages as M;
+        }
+        return this.liveMessages;
+    }
+
+    invalidate(language: LanguageTag): void {
+        this.messageCache.invalidate(language);
+    }
+
+    clear(): void {
+        this.messageCache.clear();
     }
 
+    cacheStats(): CacheStats {
+        return this.messageCache.stats();
+    }
+
+    abstract load(language: LanguageTag): Promise<Readonly<M>>;
+
+    abstract inspect(): ProviderStructure;
+
+    /**
+     * Provides the top level keys of the messages without resolving a language, so that [[live]] messages can be
+     * created before the [[currentLanguage]] is set.
+     */
+    protected abstract messageKeys(): string[];
+
     /**
      * Called by [[messagesFor]] if no cached messages are available for the requested language.
      * @param language
@@ -135,34 +471,86 @@ class ExtendingMessageProvider<B extends Messages, M extends Messages> extends C
      * @param base messages which will be used for keys not available in `extension`.
      * @param extension messages which override keys already available in `base`.
      */
-    constructor(private readonly base: MessageProvider<B>, private readonly extension: MessageProvider<M>) {
-        super();
+    constructor(private readonly base: MessageProvider<B>,
+                private readonly extension: MessageProvider<M>,
+                cacheOptions?: CacheOptions) {
+        super(cacheOptions);
+    }
+
+    /** @inheritDoc */
+    inspect(): ProviderStructure {
+        return {base: this.base, extension: this.extension};
+    }
+
+    /** @inheritDoc */
+    load(language: LanguageTag): Promise<Readonly<B & M>> {
+        return Promise.all([this.base.load(language), this.extension.load(language)])
+            .then(() => this.messagesFor(language));
+    }
+
+    /** @inheritDoc */
+    protected messageKeys(): string[] {
+        const baseKeys = Object.keys(this.base.live());
+        return baseKeys.concat(Object.keys(this.extension.live()).filter(key => baseKeys.indexOf(key) < 0));
     }
 
     /** @inheritDoc */
     protected buildMessages(language: LanguageTag): B & M {
-        return {
-            ...(this.base.messagesFor(language) as object),
-            ...this.extension.messagesFor(language) as object
-        } as B & M;
+        return mergeMessages<B & M>(
+            this.base.messagesFor(language) as B & M,
+            this.extension.messagesFor(language) as {} as DeepPartial<B & M>);
     }
 }
 
+/**
+ * The handler a [[TranslatorImpl]] reports to (the global [[diagnosticsHandler]] if `undefined`) and the language of
+ * its default messages.
+ */
+interface DiagnosticsOptions {
+    handler?: DiagnosticsHandler;
+    defaultLanguage: LanguageTag;
+}
+
+/**
+ * The translation of a language along the parent chain of the best matching translation.
+ */
+interface BuiltTranslation {
+    language: LanguageTag;
+    messages: {};
+}
+
 class TranslatorImpl<M extends Messages> extends CachedMessageProvider<M> implements Translator<M> {
     private readonly supportedLanguages: LanguageTag[];
 
     constructor(private readonly defaultMessages: LocalizedMessages<M>,
-                private readonly translations: Map<LanguageTag, LocalizedMessages<Partial<M>>> = new Map()) {
-        super();
+                private readonly translations: Map<LanguageTag, TranslationBundle<DeepPartial<M>>> = new Map(),
+                private readonly cacheOptions?: CacheOptions,
+                private readonly diagnostics: DiagnosticsOptions = {defaultLanguage: languageTag('en')},
+                private readonly formatOptions: Map<LanguageTag | undefined, FormatOptions[]> = new Map()) {
+        super(cacheOptions);
         this.supportedLanguages = Array.from(translations.keys());
     }
 
     /** @inheritDoc */
     partiallySupporting(language: Language, translation: MessagesParameter<Partial<M>>): Translator<M> {
-        const translations = new Map(this.translations.entries());
+        return this.partiallySupportingNested(language, translation as MessagesParameter<DeepPartial<M>>);
+    }
+
+    /** @inheritDoc */
+    partiallySupportingNested(language: Language, translation: MessagesParameter<DeepPartial<M>>): Translator<M> {
         const lang = tag(language);
-        translations.set(lang, localizedMessages(translation));
-        return new TranslatorImpl(this.defaultMessages, translations);
+        return this.withBundle(new TranslationBundle(lang, localizedMessages(translation)));
+    }
+
+    /** @inheritDoc */
+    partiallySupportingAsync(language: Language, load: BundleLoader<Partial<M>>): Translator<M> {
+        return this.partiallySupportingNestedAsync(language, load as BundleLoader<DeepPartial<M>>);
+    }
+
+    /** @inheritDoc */
+    partiallySupportingNestedAsync(language: Language, load: BundleLoader<DeepPartial<M>>): Translator<M> {
+        const lang = tag(language);
+        return this.withBundle(new TranslationBundle(lang, undefined, load));
     }
 
     /** @inheritDoc */
@@ -171,49 +559,180 @@ class TranslatorImpl<M extends Messages> extends CachedMessageProvider<M> implem
     }
 
     /** @inheritDoc */
-    extending<B extends Messages>(base: MessageProvider<B>): MessageProvider<B & M> {
-        return new ExtendingMessageProvider(base, this);
+    supportingAsync(language: Language, load: BundleLoader<M>): Translator<M> {
+        return this.partiallySupportingAsync(language, load);
+    }
+
+    /** @inheritDoc */
+    extending<B extends Messages>(base: MessageProvider<B>, cacheOptions?: CacheOptions): MessageProvider<B & M> {
+        return new ExtendingMessageProvider(base, this, cacheOptions);
+    }
+
+    /** @inheritDoc */
+    defaultMessagesFor(language: LanguageTag): Readonly<M> {
+        return this.withFormatsOf(language, () => this.defaultMessages(language));
+    }
+
+    /** @inheritDoc */
+    languages(): LanguageTag[] {
+        return this.supportedLanguages.slice();
+    }
+
+    /** @inheritDoc */
+    translationFor(language: LanguageTag): DeepPartial<M> | undefined {
+        const translation = this.translations.get(language);
+        return translation ? this.withFormatsOf(language, () => translation.messages()(language)) : undefined;
+    }
+
+    /** @inheritDoc */
+    inspect(): ProviderStructure {
+        return {translator: this};
+    }
+
+    /** @inheritDoc */
+    caching(cacheOptions: CacheOptions): Translator<M> {
+        return new TranslatorImpl(this.defaultMessages, this.translations, cacheOptions, this.diagnostics,
+                                  this.formatOptions);
+    }
+
+    /** @inheritDoc */
+    withDiagnostics(handler: DiagnosticsHandler, defaultLanguage: Language = 'en'): Translator<M> {
+        return new TranslatorImpl(this.defaultMessages, this.translations, this.cacheOptions,
+                                  {handler, defaultLanguage: tag(defaultLanguage)}, this.formatOptions);
+    }
+
+    /** @inheritDoc */
+    withFormats(formatOptions: FormatOptions, language?: Language): Translator<M> {
+        const lang = language !== undefined ? tag(language) : undefined;
+        const languageFormatOptions = new Map(this.formatOptions.entries());
+        languageFormatOptions.set(lang, (this.formatOptions.get(lang) || []).concat([formatOptions]));
+        return new TranslatorImpl(this.defaultMessages, this.translations, this.cacheOptions, this.diagnostics,
+                                  languageFormatOptions);
+    }
+
+    /** @inheritDoc */
+    load(language: LanguageTag): Promise<Readonly<M>> {
+        const bundles: Array<TranslationBundle<DeepPartial<M>>> = [];
+        let translationLanguage = language.pickBestMatching(this.supportedLanguages);
+        while (translationLanguage) {
+            const bundle = this.translations.get(translationLanguage);
+            if (bundle) {
+                bundles.push(bundle);
+            }
+            translationLanguage = translationLanguage.parent();
+        }
+        return Promise.all(bundles.map(bundle => bundle.load())).then(() => this.messagesFor(language));
+    }
+
+    /** @inheritDoc */
+    protected messageKeys(): string[] {
+        // the keys don't depend on the language, thus any language will do
+        return Object.keys(this.defaultMessages(languageTag('und')));
     }
 
     /** @inheritDoc */
     protected buildMessages(language: LanguageTag): M {
+        return this.withFormatsOf(language, () => this.buildTranslatedMessages(language));
+    }
+
+    private buildTranslatedMessages(language: LanguageTag): M {
         const bestMatchingLanguage = language.pickBestMatching(this.supportedLanguages);
-        return this.buildRecursive(this.defaultMessages(language), language, bestMatchingLanguage);
-    }
-
-    private buildRecursive(base: M, requestedLanguage: LanguageTag, translationLanguage?: LanguageTag): M {
-        const translation = translationLanguage ? this.translations.get(translationLanguage) : undefined;
-        if (translation) {
-            const mergedBase = this.buildRecursive(base, requestedLanguage, translationLanguage.parent());
-            return { ...mergedBase as object, ...translation(requestedLanguage) as object } as M;
-        } else if (translationLanguage) {
-            return this.buildRecursive(base, requestedLanguage, translationLanguage.parent());
-        } else {
-            return base;
+        const defaultMessages = this.defaultMessages(language);
+        const translations: BuiltTranslation[] = [];
+        for (let lang = bestMatchingLanguage; lang; lang = lang.parent()) {
+            const translation = this.translations.get(lang);
+            if (translation) {
+                translations.push({language: lang, messages: translation.messages()(language)});
+            }
+        }
+        const handler = this.diagnostics.handler || diagnosticsHandler();
+        if (handler) {
+            this.reportFallbacks(handler, defaultMessages, translations, language, bestMatchingLanguage);
         }
+        const merge = (merged: M, translation: BuiltTranslation) =>
+            mergeMessages(merged, translation.messages as DeepPartial<M>);
+        return translations.reduceRight(merge, defaultMessages);
+    }
+
+    private withBundle(bundle: TranslationBundle<DeepPartial<M>>): Translator<M> {
+        const translations = new Map(this.translations.entries());
+        translations.set(bundle.language, bundle);
+        return new TranslatorImpl(this.defaultMessages, translations, this.cacheOptions, this.diagnostics,
+                                  this.formatOptions);
+    }
+
+    /**
+     * Executes `fn` with the formats of the language and its parents applied, the more specific language taking
+     * precedence.
+     */
+    private withFormatsOf<T>(language: LanguageTag, fn: () => T): T {
+        const applicable: FormatOptions[] = [];
+        for (let lang: LanguageTag | undefined = language; lang; lang = lang.parent()) {
+            applicable.unshift(...this.formatOptions.get(lang) || []);
+        }
+        applicable.unshift(...this.formatOptions.get(undefined) || []);
+        return applicable.reduceRight((run: () => T, formatOptions) => () => runWithFormats(formatOptions, run), fn)();
+    }
+
+    private reportFallbacks(handler: DiagnosticsHandler, defaultMessages: M, translations: BuiltTranslation[],
+                            requestedLanguage: LanguageTag, translationLanguage?: LanguageTag): void {
+        const report = (event: DiagnosticsEvent) => {
+            try {
+                handler(event);
+            } catch (e) {
+                // a failing handler must not prevent the messages from being provided
+            }
+        };
+        if (!translationLanguage) {
+            if (!requestedLanguage.pickBestMatching([this.diagnostics.defaultLanguage])) {
+                report({type: 'noMatchingTranslation', requestedLanguage, availableLanguages: this.languages()});
+            }
+            return;
+        }
+        const suppliers: Map<string, LanguageTag> = new Map();
+        translations.forEach(translation => messageKeys(translation.messages as MessageObject)
+            .filter(key => !suppliers.has(key))
+            .forEach(key => suppliers.set(key, translation.language)));
+        messageKeys(defaultMessages as {} as MessageObject).forEach(key => {
+            const supplier = suppliers.get(key);
+            if (!supplier) {
+                report({type: 'fallback', requestedLanguage, translationLanguage, key, step: 'default'});
+            } else if (supplier !== translationLanguage) {
+                report({
+                    type: 'fallback', requestedLanguage, translationLanguage, key, step: 'parent',
+                    suppliedBy: supplier
+                });
+            }
+        });
     }
 }
 
 /**
  * Create a [[Translator]] with the specified default messages.
  * @param defaultMessages messages to be used if no messages for a selected translation are available.
+ * @param cacheOptions options for the message cache of the translator.
  * @returns translator with the specified default messages.
  */
-export function translate<M>(defaultMessages: MessagesParameter<M>): Translator<M> {
-    return new TranslatorImpl(localizedMessages(defaultMessages));
+export function translate<M>(defaultMessages: MessagesParameter<M>, cacheOptions?: CacheOptions): Translator<M> {
+    return new TranslatorImpl(localizedMessages(defaultMessages), new Map(), cacheOptions);
 }
 
 /**
- * Picks the best supported language based on the user's preferred languages.
+ * Picks the best supported language based on the user's preferred languages. A preferred language is supported if the
+ * [[LanguageTag.distance]] to one of the available translations is below the `threshold` (e.g. `de-CH` and `gsw`
+ * are supported by a `de` translation, while `sr-Latn` isn't supported by an `sr` translation written in Cyrillic).
  *
  * @param availableTranslations the translations provided by this application
  * @param usersPreferredLanguages the user's preferred languages ordered by preference (most preferred first)
- * @returns the best matching language from `usersPreferredLanguages` or the first if no one matches.
+ * @param threshold the minimum distance of languages not matching. Defaults to [[languageMatchThreshold]].
+ * @returns the first language from `usersPreferredLanguages` supported by one of the available translations or the
+ *     first if no one is supported.
  */
 export function pickPreferredLanguage(availableTranslations: LanguageTag[],
-                                      usersPreferredLanguages: LanguageTag[]): LanguageTag {
+                                      usersPreferredLanguages: LanguageTag[],
+                                      threshold: number = languageMatchThreshold): LanguageTag {
     const bestLanguagePreference = usersPreferredLanguages
-        .find(navLang => navLang.matchesOneOf(availableTranslations));
+        .find(navLang => navLang.pickBestMatching(availableTranslations, threshold) !== undefined);
     return bestLanguagePreference || usersPreferredLanguages[0];
 }
 
@@ -222,6 +741,16 @@ let _preferredLanguage: LanguageTag | undefined = hasNavigator && navigator.lang
     languageTag(navigator.language) :
     /* istanbul ignore next: not reachable in test */ undefined;
 
+/**
+ * Called whenever the [[preferredLanguage]] changes.
+ *
+ * @param language the new preferred language.
+ * @param previous the preferred language before the change.
+ */
+export type PreferredLanguageListener = (language: LanguageTag, previous: LanguageTag | undefined) => void;
+
+const preferredLanguageListeners: PreferredLanguageListener[] = [];
+
 /**
  * The preferred language to be used when calling [[MessageProvider.messages]].
  *
@@ -232,13 +761,42 @@ export function preferredLanguage(): LanguageTag | undefined {
     return _preferredLanguage;
 }
 
+/**
+ * The language to be used when calling [[MessageProvider.messages]]: the language of the active [[LanguageContext]]
+ * (see [[runWithLanguage]]) or the [[preferredLanguage]] if there is no active context.
+ */
+export function currentLanguage(): LanguageTag | undefined {
+    return languageContext().current() || _preferredLanguage;
+}
+
 /**
  * Sets the preferred language to be used when calling [[MessageProvider.messages]].
  *
  * @param language language to be used for retrieving messages with [[MessageProvider.messages]].
  */
 export function setPreferredLanguage(language: LanguageTag): void {
-    _preferredLanguage = language;
+    const previous = _preferredLanguage;
+    if (language !== previous) {
+        _preferredLanguage = language;
+        preferredLanguageListeners.slice().forEach(listener => listener(language, previous));
+    }
+}
+
+/**
+ * Registers a listener which will be called whenever the [[preferredLanguage]] changes, e.g. due to a call to
+ * [[setPreferredLanguage]] or [[selectPreferredLanguage]].
+ *
+ * @param listener the listener to be called on changes.
+ * @returns a function which removes the listener again.
+ */
+export function onPreferredLanguageChange(listener: PreferredLanguageListener): () => void {
+    preferredLanguageListeners.push(listener);
+    return () => {
+        const index = preferredLanguageListeners.indexOf(listener);
+        if (index >= 0) {
+            preferredLanguageListeners.splice(index, 1);
+        }
+    };
 }
 
 /**
@@ -0,0 +1,288 @@
+import {
+    ArgumentTypes,
+    catalogMessages,
+    CatalogMessageKind,
+    catalogTranslators,
+    CliEnvironment,
+    format,
+    formatNamed,
+    formatObject,
+    formatRich,
+    formatTyped,
+    LanguageTag,
+    languageTag,
+    loadResources,
+    ordinalFormat,
+    parseXliff,
+    plural,
+    pluralFormat,
+    runCli,
+    translate,
+    writeXliff,
+    xliffDocument,
+    xliffResources,
+    xliffTranslationModule
+} from '.';
+
+const en = languageTag('en');
+const de = languageTag('de');
+
+const base = translate({ok: 'OK'}).supporting('de', {ok: 'OK'});
+
+const translator = translate((lang: LanguageTag) => ({
+    welcome: 'Welcome <b>"friend"</b> & co',
+    greeting: formatObject<{ name: string }>(lang, 'Hello {name}'),
+    taskCount: format<number>(lang, 'You have {1, number} tasks'),
+    tasks: plural(lang, {
+        one: 'One task',
+        other: n => `${n} tasks`
+    }),
+    task: {
+        add: 'Add task'
+    }
+})).partiallySupporting('de', {
+    welcome: 'Willkommen'
+});
+
+describe('catalogMessages', () => {
+    it('must list nested messages with their kind and text', () => {
+        expect(catalogMessages(translator.defaultMessagesFor(en))).toEqual([
+            {key: 'welcome', kind: 'string', text: 'Welcome <b>"friend"</b> & co'},
+            {key: 'greeting', kind: 'formatObject', text: 'Hello {name}'},
+            {key: 'taskCount', kind: 'format', text: 'You have {1, number} tasks'},
+            {key: 'tasks', kind: 'plural', text: undefined, forms: {one: 'One task'}},
+            {key: 'task.add', kind: 'string', text: 'Add task'}
+        ]);
+    });
+});
+
+describe('catalogTranslators', () => {
+    it('must follow extending chains and list each translator once', () => {
+        const extending = translator.extending(base);
+        const translators = catalogTranslators([
+            {id: 'a#msg', provider: extending},
+            {id: 'b#base', provider: base}
+        ]);
+        expect(translators.map(t => t.id)).toEqual(['b#base', 'a#msg']);
+        expect(translators[1].translator).toBe(translator);
+    });
+
+    it('must name translators only reachable through a chain after the extending provider', () => {
+        const translators = catalogTranslators([{id: 'msg', provider: translator.extending(base)}]);
+        expect(translators.map(t => t.id)).toEqual(['msg', 'msg/base']);
+    });
+});
+
+describe('XLIFF', () => {
+    const skipped: string[] = [];
+    const document = xliffDocument([{id: 'TaskList', translator}], en, de,
+                                   (file, message) => skipped.push(message.key));
+
+    it('must export messages with existing translations', () => {
+        expect(skipped).toEqual(['tasks']);
+        expect(document.sourceLanguage).toBe('en');
+        expect(document.targetLanguage).toBe('de');
+        expect(document.files[0].units[0]).toEqual({
+            id: 'welcome', kind: 'string', source: 'Welcome <b>"friend"</b> & co', target: 'Willkommen', state: 'translated'
+        });
+        expect(document.files[0].units[1].state).toBe('initial');
+        expect(document.files[0].units[1].target).toBeUndefined();
+    });
+
+    it('must read what has been written', () => {
+        const xml = writeXliff(document);
+        expect(xml).toContain('<source>Welcome &lt;b&gt;&quot;friend&quot;&lt;/b&gt; &amp; co</source>');
+        expect(parseXliff(xml)).toEqual(JSON.parse(JSON.stringify(document)));
+    });
+
+    it('must read characters outside the Basic Multilingual Plane', () => {
+        const written = parseXliff(writeXliff({
+            ...document,
+            files: [{id: 'f', units: [{id: 'smile', source: 'Smile 😀', state: 'initial' as 'initial'}]}]
+        }));
+        expect(written.files[0].units[0].source).toBe('Smile 😀');
+        const referenced = parseXliff(`<xliff version="2.0" srcLang="en"><file id="f"><unit id="smile">
+            <segment><source>Smile &#x1F600; &#128512;</source></segment></unit></file></xliff>`);
+        expect(referenced.files[0].units[0].source).toBe('Smile 😀 😀');
+    });
+
+    it('must read documents written by other tools', () => {
+        const parsed = parseXliff(`<?xml version="1.0"?>
+            <!-- translated -->
+            <x:xliff xmlns:x="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de">
+              <x:file id="f">
+                <x:unit id="task.add">
+                  <x:segment><x:source>Add task</x:source><x:target><![CDATA[Aufgabe <hinzufügen>]]></x:target></x:segment>
+                </x:unit>
+                <x:unit id="welcome"><x:segment><x:source>Welcome</x:source></x:segment></x:unit>
+              </x:file>
+            </x:xliff>`);
+        expect(parsed.files[0].units).toEqual([
+            {id: 'task.add', kind: undefined, source: 'Add task', target: 'Aufgabe <hinzufügen>', state: 'translated'},
+            {id: 'welcome', kind: undefined, source: 'Welcome', target: undefined, state: 'initial'}
+        ]);
+    });
+
+    it('must reject other documents', () => {
+        expect(() => parseXliff('<xliff version="1.2"/>')).toThrow();
+        expect(() => parseXliff('<xliff version="2.0">')).toThrow();
+        expect(() => parseXliff('<xliff version="2.0">&unknown;</xliff>')).toThrow();
+        expect(() => parseXliff('<xliff version="2.0">&#x110000;</xliff>')).toThrow();
+    });
+
+    it('must convert translations to resources', () => {
+        const file = {
+            id: 'TaskList',
+            units: [
+                {id: 'greeting', source: 'Hello {name}', target: 'Hallo {name}', state: 'translated' as 'translated'},
+                {id: 'task.add', source: 'Add task', target: 'Aufgabe hinzufügen', state: 'final' as 'final'},
+                {id: 'welcome', source: 'Welcome', state: 'initial' as 'initial'}
+            ]
+        };
+        const resources = xliffResources(file);
+        expect(resources).toEqual({greeting: 'Hallo {name}', task: {add: 'Aufgabe hinzufügen'}});
+        const msg = loadResources(translator, {de: resources}, {partial: true}).messagesFor(de);
+        expect(msg.greeting({name: 'Sven'})).toBe('Hallo Sven');
+        expect(msg.task.add).toBe('Aufgabe hinzufügen');
+    });
+
+    it('must export plurals and the declarations of typed messages', () => {
+        const typed = translate((lang: LanguageTag) => ({
+            tasks: plural(lang, {zero: 'No tasks', one: 'One task', other: format(lang, '{1, number} tasks')}),
+            place: ordinalFormat(lang, {one: '#st', two: '#nd', few: '#rd', other: '#th'}),
+            likes: pluralFormat(lang, {exact: {0: 'Nobody'}, offset: 1, one: 'You and # other', other: 'You and # others'}),
+            owner: formatNamed<{ name: string }>(lang, 'Owner: {name}'),
+            remaining: formatTyped(lang, '{count, number} left', {count: 'number'}),
+            terms: formatRich(lang, 'Read the <link>terms</link> of {company}', {company: 'string'}, ['link'])
+        }));
+        const exported = xliffDocument([{id: 'Typed', translator: typed}], en, de);
+        expect(exported.files[0].units.map(unit => [unit.kind, unit.source])).toEqual([
+            ['plural', '{1, plural, =0 {No tasks} one {One task} other {{1, number} tasks}}'],
+            ['plural', '{1, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}'],
+            ['plural', '{1, plural, offset:1 =0 {Nobody} one {You and # other} other {You and # others}}'],
+            ['formatNamed', 'Owner: {name}'],
+            ['formatTyped', '{count, number} left'],
+            ['formatRich', 'Read the <link>terms</link> of {company}']
+        ]);
+        expect(exported.files[0].units[4].argumentTypes).toEqual({count: 'number'});
+        expect(exported.files[0].units[5].argumentTypes).toEqual({company: 'string'});
+        expect(exported.files[0].units[5].tags).toEqual(['link']);
+        const xml = writeXliff(exported);
+        expect(xml).toContain('<notes><note category="kind">formatRich</note>' +
+                              '<note category="arguments">company:string</note><note category="tags">link</note></notes>');
+        expect(parseXliff(xml)).toEqual(JSON.parse(JSON.stringify(exported)));
+    });
+
+    it('must import translated plurals', () => {
+        const file = {
+            id: 'TaskList',
+            units: [{
+                id: 'tasks',
+                kind: 'plural' as 'plural',
+                source: '{1, plural, one {One task} other {{1, number} tasks}}',
+                target: '{1, plural, =0 {Keine Aufgaben} one {Eine Aufgabe} other {{1, number} Aufgaben}}',
+                state: 'translated' as 'translated'
+            }]
+        };
+        const msg = loadResources(translator, {de: xliffResources(file)}, {partial: true}).messagesFor(de);
+        expect([0, 1, 1234].map(msg.tasks)).toEqual(['Keine Aufgaben', 'Eine Aufgabe', '1.234 Aufgaben']);
+    });
+
+    it('must generate the same kind of formatter as the default message', () => {
+        const unit = (id: string, kind: CatalogMessageKind, target: string,
+                      argumentTypes?: ArgumentTypes, tags?: string[]) =>
+            ({id, kind, argumentTypes, tags, source: '', target, state: 'translated' as 'translated'});
+        expect(xliffTranslationModule({
+            id: 'Typed',
+            units: [
+                unit('tasks', 'plural', '{1, plural, =0 {Keine Aufgaben} one {Eine Aufgabe} other {{1, number} Aufgaben}}'),
+                unit('place', 'plural', '{1, selectordinal, offset:1 other {#.}}'),
+                unit('odd', 'plural', '{1, number} {1, plural, other {Aufgaben}}'),
+                unit('owner', 'formatNamed', 'Besitzer: {name}'),
+                unit('remaining', 'formatTyped', '{count, number} übrig', {count: 'number'}),
+                unit('terms', 'formatRich', 'Lies die <link>AGB</link> von {company}', {company: 'string'}, ['link'])
+            ]
+        })).toBe(
+            `import { LanguageTag, format, formatNamed, formatRich, formatTyped, ordinalFormat, pluralFormat } ` +
+            `from 'typed-intl';\n\n` +
+            `export default (lang: LanguageTag) => ({\n` +
+            `    tasks: pluralFormat(lang, {exact: {0: 'Keine Aufgaben'}, one: 'Eine Aufgabe', ` +
+            `other: '{1, number} Aufgaben'}),\n` +
+            `    place: ordinalFormat(lang, {offset: 1, other: '#.'}),\n` +
+            `    odd: format(lang, '{1, number} {1, plural, other {Aufgaben}}'),\n` +
+            `    owner: formatNamed(lang, 'Besitzer: {name}'),\n` +
+            `    remaining: formatTyped(lang, '{count, number} übrig', {count: 'number'}),\n` +
+            `    terms: formatRich(lang, 'Lies die <link>AGB</link> von {company}', {company: 'string'}, ['link'])\n` +
+            `});\n`);
+    });
+
+    it('must generate translation modules', () => {
+        expect(xliffTranslationModule({
+            id: 'TaskList',
+            units: [
+                {id: 'greeting', kind: 'formatObject', source: 'Hello {name}', target: 'Hallo {name}', state: 'translated'},
+                {id: 'task.add', kind: 'string', source: 'Add task', target: 'Aufgabe \'hinzufügen\'', state: 'final'}
+            ]
+        })).toBe(
+            `import { LanguageTag, formatObject } from 'typed-intl';\n\n` +
+            `export default (lang: LanguageTag) => ({\n` +
+            `    greeting: formatObject(lang, 'Hallo {name}'),\n` +
+            `    task: {\n` +
+            `        add: 'Aufgabe \\'hinzufügen\\''\n` +
+            `    }\n` +
+            `});\n`);
+    });
+});
+
+describe('runCli', () => {
+    function environment(files: {[name: string]: string}, output: string[]): CliEnvironment {
+        return {
+            readFile: file => files[file],
+            writeFile: (file, content) => files[file] = content,
+            loadModule: module => module === './messages' ? {default: translator, other: 'no translator'} : {},
+            print: text => output.push(text),
+            printError: text => output.push(text)
+        };
+    }
+
+    it('must export and import XLIFF files', () => {
+        const files: {[name: string]: string} = {};
+        const output: string[] = [];
+        return runCli(['export-xliff', '--target', 'de,fr', '--out', 'xlf/', './messages'], environment(files, output))
+            .then(exitCode => {
+                expect(exitCode).toBe(0);
+                expect(Object.keys(files)).toEqual(['xlf/messages.de.xlf', 'xlf/messages.fr.xlf']);
+                expect(files['xlf/messages.de.xlf']).toContain('<file id="./messages#default">');
+                expect(output).toContain('Skipping ./messages#default tasks: plural messages have no text\n');
+                return runCli(['import-xliff', '--out', 'json', 'xlf/messages.de.xlf'], environment(files, output));
+            })
+            .then(exitCode => {
+                expect(exitCode).toBe(0);
+                expect(JSON.parse(files['json/messages_default.de.json'])).toEqual({welcome: 'Willkommen'});
+                return runCli(['import-xliff', '--format', 'ts', 'xlf/messages.de.xlf'], environment(files, output));
+            })
+            .then(exitCode => {
+                expect(exitCode).toBe(0);
+                expect(files['./messages_default.de.ts']).toContain('welcome: \'Willkommen\'');
+            });
+    });
+
+    it('must report errors', () => {
+        const output: string[] = [];
+        const env = environment({}, output);
+        return Promise.all([
+            runCli([], env),
+            runCli(['export-xliff', './messages'], env),
+            runCli(['import-xliff', '--format', 'po', 'x.xlf'], env),
+            runCli(['import-xliff', '--out'], env)
+        ]).then(exitCodes => {
+            expect(exitCodes).toEqual([1, 1, 1, 1]);
+            expect(output[0]).toContain('Usage: typed-intl');
+            expect(output.slice(1)).toEqual([
+                'Missing option --target\n',
+                'Unsupported format po\n',
+                'Missing value for option --out\n'
+            ]);
+        });
+    });
+});
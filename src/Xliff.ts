@@ -0,0 +1,319 @@
+import { CatalogMessage, catalogMessages, CatalogMessageKind, CatalogTranslator } from './Catalog';
+import { parsePluralMessage, PluralForms } from './Format';
+import { LanguageTag } from './LanguageTag';
+import { ArgumentType, ArgumentTypes } from './MessageArguments';
+import { ResourceMessages } from './Resources';
+import { childElements, escapeXml, parseXml, textContent, XmlElement } from './Xml';
+
+/**
+ * The translation state of an [[XliffUnit]] as defined by XLIFF 2.0.
+ */
+export type XliffState = 'initial' | 'translated' | 'reviewed' | 'final';
+
+/**
+ * A single message of an [[XliffDocument]].
+ */
+export interface XliffUnit {
+    /**
+     * The message key. Keys of nested namespaces are separated by dots (e.g. `task.add`).
+     */
+    readonly id: string;
+
+    /**
+     * The kind of the message (see [[CatalogMessageKind]]).
+     */
+    readonly kind?: CatalogMessageKind;
+
+    /**
+     * The declared arguments of a `formatTyped` or `formatRich` message.
+     */
+    readonly argumentTypes?: ArgumentTypes;
+
+    /**
+     * The tags of a `formatRich` message.
+     */
+    readonly tags?: string[];
+
+    readonly source: string;
+    readonly target?: string;
+    readonly state: XliffState;
+}
+
+/**
+ * The messages of a single [[Translator]] in an [[XliffDocument]].
+ */
+export interface XliffFile {
+    readonly id: string;
+    readonly units: XliffUnit[];
+}
+
+/**
+ * The contents of an XLIFF 2.0 document.
+ */
+export interface XliffDocument {
+    readonly sourceLanguage: string;
+    readonly targetLanguage: string;
+    readonly files: XliffFile[];
+}
+
+function unitFor(message: CatalogMessage, translations: Map<string, CatalogMessage>): XliffUnit {
+    const translation = translations.get(message.key);
+    const target = translation && translation.text !== undefined ? translation.text : undefined;
+    return {
+        id: message.key,
+        kind: message.kind,
+        argumentTypes: message.argumentTypes,
+        tags: message.tags,
+        source: message.text!,
+        target,
+        state: target !== undefined ? 'translated' : 'initial'
+    };
+}
+
+/**
+ * Collects the messages of the specified translators for translation into `targetLanguage`.
+ *
+ * Each translator becomes an [[XliffFile]]. [[plural]]s are exported as a single `plural` message
+ * (e.g. `{1, plural, one {# task} other {# tasks}}`). Messages without a text (i.e. custom message functions and
+ * [[plural]]s with cases not created by [[format]]) are skipped and reported to `skipped`.
+ *
+ * Translations provided for exactly the target language are included as target with state `translated`. All other
+ * messages have the state `initial`. Asynchronously loaded translations must have been loaded before.
+ *
+ * @param translators the translators to export.
+ * @param sourceLanguage the language of the default messages.
+ * @param targetLanguage the language to translate to.
+ * @param skipped called for each message which can't be exported.
+ * @returns the document to be written using [[writeXliff]].
+ */
+export function xliffDocument(translators: CatalogTranslator[], sourceLanguage: LanguageTag,
+                              targetLanguage: LanguageTag,
+                              skipped: (file: string, message: CatalogMessage) => void = () => undefined
+): XliffDocument {
+    const files = translators.map(({id, translator}) => {
+        const translation = translator.translationFor(targetLanguage);
+        const translations: Map<string, CatalogMessage> = new Map();
+        if (translation) {
+            catalogMessages(translation).forEach(message => translations.set(message.key, message));
+        }
+        const units = catalogMessages(translator.defaultMessagesFor(sourceLanguage))
+            .filter(message => {
+                if (message.text === undefined) {
+                    skipped(id, message);
+                }
+                return message.text !== undefined;
+            })
+            .map(message => unitFor(message, translations));
+        return {id, units};
+    });
+    return {sourceLanguage: sourceLanguage.tag, targetLanguage: targetLanguage.tag, files};
+}
+
+function writeNote(category: string, text: string | undefined): string {
+    return text !== undefined ? `<note category="${category}">${escapeXml(text)}</note>` : '';
+}
+
+function writeNotes(unit: XliffUnit): string {
+    const argumentTypes = unit.argumentTypes;
+    const notes = writeNote('kind', unit.kind) +
+        writeNote('arguments', argumentTypes &&
+            Object.keys(argumentTypes).map(name => `${name}:${argumentTypes[name]}`).join(',')) +
+        writeNote('tags', unit.tags && unit.tags.join(','));
+    return notes ? `      <notes>${notes}</notes>\n` : '';
+}
+
+function writeUnit(unit: XliffUnit): string {
+    return `    <unit id="${escapeXml(unit.id)}">\n` +
+        writeNotes(unit) +
+        `      <segment state="${unit.state}">\n` +
+        `        <source>${escapeXml(unit.source)}</source>\n` +
+        (unit.target !== undefined ? `        <target>${escapeXml(unit.target)}</target>\n` : '') +
+        `      </segment>\n` +
+        `    </unit>\n`;
+}
+
+/**
+ * Serializes an [[XliffDocument]] as XLIFF 2.0.
+ */
+export function writeXliff(document: XliffDocument): string {
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" ' +
+        `srcLang="${escapeXml(document.sourceLanguage)}" trgLang="${escapeXml(document.targetLanguage)}">\n` +
+        document.files.map(file =>
+            `  <file id="${escapeXml(file.id)}">\n` +
+            file.units.map(writeUnit).join('') +
+            '  </file>\n'
+        ).join('') +
+        '</xliff>\n';
+}
+
+function readArgumentTypes(text: string): ArgumentTypes {
+    const argumentTypes: ArgumentTypes = {};
+    text.split(',').filter(argument => argument !== '').forEach(argument => {
+        const separator = argument.lastIndexOf(':');
+        argumentTypes[argument.slice(0, separator)] = argument.slice(separator + 1) as ArgumentType;
+    });
+    return argumentTypes;
+}
+
+function readUnit(unit: XmlElement): XliffUnit {
+    const note = (category: string) => childElements(unit, 'notes')
+        .map(notes => childElements(notes, 'note').filter(element => element.attributes.category === category)[0])
+        .filter(element => element !== undefined)
+        .map(textContent)[0];
+    const kind = note('kind');
+    const argumentTypes = note('arguments');
+    const tags = note('tags');
+    const segments = childElements(unit, 'segment');
+    const texts = (name: string) => segments
+        .map(segment => childElements(segment, name).map(textContent).join(''))
+        .join('');
+    const hasTarget = segments.some(segment => childElements(segment, 'target').length > 0);
+    const state = segments.length > 0 ? segments[0].attributes.state : undefined;
+    return {
+        id: unit.attributes.id,
+        kind: kind as CatalogMessageKind | undefined,
+        argumentTypes: argumentTypes !== undefined ? readArgumentTypes(argumentTypes) : undefined,
+        tags: tags !== undefined ? tags.split(',').filter(tag => tag !== '') : undefined,
+        source: texts('source'),
+        target: hasTarget ? texts('target') : undefined,
+        state: (state || (hasTarget ? 'translated' : 'initial')) as XliffState
+    };
+}
+
+/**
+ * Parses an XLIFF 2.0 document.
+ *
+ * @param xml the document.
+ * @returns the parsed document.
+ * @throws an exception if the document is not a well-formed XLIFF 2.0 document.
+ */
+export function parseXliff(xml: string): XliffDocument {
+    const root = parseXml(xml);
+    if (root.name.replace(/^.*:/, '') !== 'xliff' || root.attributes.version !== '2.0') {
+        throw 'Not an XLIFF 2.0 document';
+    }
+    return {
+        sourceLanguage: root.attributes.srcLang,
+        targetLanguage: root.attributes.trgLang,
+        files: childElements(root, 'file').map(file => ({
+            id: file.attributes.id,
+            units: childElements(file, 'unit').map(readUnit)
+        }))
+    };
+}
+
+function translatedTree(file: XliffFile, value: (unit: XliffUnit) => string): ResourceMessages {
+    const tree: ResourceMessages = {};
+    file.units.filter(unit => unit.target !== undefined).forEach(unit => {
+        const path = unit.id.split('.');
+        let namespace = tree;
+        path.slice(0, -1).forEach(key => {
+            if (typeof namespace[key] !== 'object') {
+                namespace[key] = {};
+            }
+            namespace = namespace[key] as ResourceMessages;
+        });
+        namespace[path[path.length - 1]] = value(unit);
+    });
+    return tree;
+}
+
+/**
+ * Converts the translated units of an [[XliffFile]] to [[ResourceMessages]], which can be loaded using
+ * [[loadResources]] with the `partial` option. Units without target are omitted.
+ */
+export function xliffResources(file: XliffFile): ResourceMessages {
+    return translatedTree(file, unit => unit.target!);
+}
+
+function quote(text: string): string {
+    return `'${text.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`;
+}
+
+function sourceKey(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+function writeArgumentTypes(argumentTypes: ArgumentTypes): string {
+    return '{' + Object.keys(argumentTypes).map(name => `${sourceKey(name)}: ${quote(argumentTypes[name])}`)
+        .join(', ') + '}';
+}
+
+function writePluralForms(forms: PluralForms): string {
+    const exact = forms.exact || {};
+    const exactValues = Object.keys(exact);
+    const entries = (exactValues.length > 0 ?
+        [`exact: {${exactValues.map(value => `${value}: ${quote(exact[value])}`).join(', ')}}`] : [])
+        .concat(forms.offset !== undefined ? [`offset: ${forms.offset}`] : [])
+        .concat(['zero', 'one', 'two', 'few', 'many', 'other']
+            .filter(category => forms[category] !== undefined)
+            .map(category => `${category}: ${quote(forms[category])}`));
+    return `{${entries.join(', ')}}`;
+}
+
+function pluralFormatter(target: string): { factory: string, source: string } {
+    const plural = parsePluralMessage(target);
+    if (!plural) {
+        return {factory: 'format', source: `format(lang, ${quote(target)})`};
+    }
+    const factory = plural.type === 'ordinal' ? 'ordinalFormat' : 'pluralFormat';
+    return {factory, source: `${factory}(lang, ${writePluralForms(plural.forms)})`};
+}
+
+function unitFormatter(unit: XliffUnit): { factory: string, source: string } | undefined {
+    const target = quote(unit.target!);
+    switch (unit.kind) {
+        case 'format':
+        case 'formatObject':
+        case 'formatNamed':
+            return {factory: unit.kind, source: `${unit.kind}(lang, ${target})`};
+        case 'formatTyped':
+            return {
+                factory: unit.kind,
+                source: `formatTyped(lang, ${target}, ${writeArgumentTypes(unit.argumentTypes || {})})`
+            };
+        case 'formatRich':
+            return {
+                factory: unit.kind,
+                source: `formatRich(lang, ${target}, ${writeArgumentTypes(unit.argumentTypes || {})}, ` +
+                    `[${(unit.tags || []).map(quote).join(', ')}])`
+            };
+        case 'plural':
+            return pluralFormatter(unit.target!);
+        default:
+            return undefined;
+    }
+}
+
+function writeSourceTree(tree: ResourceMessages, indent: string): string {
+    return '{\n' + Object.keys(tree).map(key => {
+        const value = tree[key];
+        return `${indent}    ${sourceKey(key)}: ` +
+            (typeof value === 'string' ? value : writeSourceTree(value, `${indent}    `));
+    }).join(',\n') + `\n${indent}}`;
+}
+
+/**
+ * Generates a TypeScript module for the translated units of an [[XliffFile]]. The module's default export is a
+ * [[LocalizedMessages]] function which can be passed to [[Translator.partiallySupportingNested]] or loaded using
+ * [[Translator.partiallySupportingNestedAsync]]. Units without target are omitted.
+ *
+ * Each message is created by the same function as the default message according to the unit's kind, e.g.
+ * [[formatTyped]] with the declared argument types. Plurals are created by [[pluralFormat]] or [[ordinalFormat]].
+ *
+ * @param file the translated messages.
+ * @returns the source code of the module.
+ */
+export function xliffTranslationModule(file: XliffFile): string {
+    const imports = ['LanguageTag'];
+    const tree = translatedTree(file, unit => {
+        const formatter = unitFormatter(unit);
+        if (formatter && imports.indexOf(formatter.factory) < 0) {
+            imports.push(formatter.factory);
+        }
+        return formatter ? formatter.source : quote(unit.target!);
+    });
+    return `import { ${imports.sort().join(', ')} } from 'typed-intl';\n\n` +
+        `export default (lang: LanguageTag) => (${writeSourceTree(tree, '')});\n`;
+}
@@ -0,0 +1,162 @@
+/**
+ * A minimal XML element tree as needed for reading and writing translation exchange formats.
+ */
+export interface XmlElement {
+    readonly name: string;
+    readonly attributes: { [name: string]: string };
+    readonly children: Array<XmlElement | string>;
+}
+
+const entities: { [entity: string]: string } = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: '\''
+};
+
+/**
+ * Escapes the characters with special meaning in XML text and attribute values.
+ */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const codePoint = name[1].toLowerCase() === 'x' ?
+                parseInt(name.substr(2), 16) :
+                parseInt(name.substr(1), 10);
+            if (codePoint > 0x10ffff) {
+                throw `Invalid XML character reference ${entity}`;
+            }
+            return String.fromCodePoint(codePoint);
+        }
+        const replacement = entities[name];
+        if (replacement === undefined) {
+            throw `Unknown XML entity ${entity}`;
+        }
+        return replacement;
+    });
+}
+
+/**
+ * Parses an XML document. Supports elements, attributes, text, CDATA sections and the predefined and numeric
+ * entities. Comments, processing instructions and document type declarations are skipped.
+ *
+ * @param xml the XML document.
+ * @returns the root element.
+ * @throws an exception if the document is not well-formed.
+ */
+export function parseXml(xml: string): XmlElement {
+    let position = 0;
+
+    function fail(message: string): never {
+        throw `Invalid XML at position ${position}: ${message}`;
+    }
+
+    function skipMarkup(): boolean {
+        for (const [start, end] of [['<?', '?>'], ['<!--', '-->'], ['<!DOCTYPE', '>']]) {
+            if (xml.substr(position, start.length) === start) {
+                const endPosition = xml.indexOf(end, position);
+                if (endPosition < 0) {
+                    fail(`unterminated ${start}`);
+                }
+                position = endPosition + end.length;
+                return true;
+            }
+        }
+        return false;
+    }
+
+    function skipProlog(): void {
+        while (true) {
+            while (/\s/.test(xml.charAt(position))) {
+                position++;
+            }
+            if (!skipMarkup()) {
+                return;
+            }
+        }
+    }
+
+    function parseElement(): XmlElement {
+        const tag = /^<([A-Za-z_][\w:.-]*)/.exec(xml.substr(position));
+        if (!tag) {
+            return fail('expected element');
+        }
+        position += tag[0].length;
+        const attributes: { [name: string]: string } = {};
+        const attributePattern = /^\s+([A-Za-z_][\w:.-]*)\s*=\s*("([^"]*)"|'([^']*)')/;
+        let attribute = attributePattern.exec(xml.substr(position));
+        while (attribute) {
+            attributes[attribute[1]] = unescapeXml(attribute[3] !== undefined ? attribute[3] : attribute[4]);
+            position += attribute[0].length;
+            attribute = attributePattern.exec(xml.substr(position));
+        }
+        const end = /^\s*(\/?)>/.exec(xml.substr(position));
+        if (!end) {
+            return fail(`malformed start tag of ${tag[1]}`);
+        }
+        position += end[0].length;
+        const element: XmlElement = {name: tag[1], attributes, children: []};
+        if (!end[1]) {
+            parseContent(element);
+        }
+        return element;
+    }
+
+    function parseContent(element: XmlElement): void {
+        while (position < xml.length) {
+            if (xml.substr(position, 2) === '</') {
+                const closing = `</${element.name}`;
+                const endPosition = xml.indexOf('>', position);
+                if (xml.substring(position, endPosition).trim() !== closing) {
+                    fail(`expected ${closing}>`);
+                }
+                position = endPosition + 1;
+                return;
+            } else if (xml.substr(position, 9) === '<![CDATA[') {
+                const endPosition = xml.indexOf(']]>', position);
+                if (endPosition < 0) {
+                    fail('unterminated CDATA section');
+                }
+                element.children.push(xml.substring(position + 9, endPosition));
+                position = endPosition + 3;
+            } else if (xml.charAt(position) === '<') {
+                if (!skipMarkup()) {
+                    element.children.push(parseElement());
+                }
+            } else {
+                const endPosition = xml.indexOf('<', position);
+                const text = xml.substring(position, endPosition < 0 ? xml.length : endPosition);
+                element.children.push(unescapeXml(text));
+                position += text.length;
+            }
+        }
+        fail(`unterminated element ${element.name}`);
+    }
+
+    skipProlog();
+    return parseElement();
+}
+
+/**
+ * @returns the child elements of `element` with the specified name (ignoring namespace prefixes).
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(child =>
+        typeof child !== 'string' && child.name.replace(/^.*:/, '') === name) as XmlElement[];
+}
+
+/**
+ * @returns the concatenated text content of `element` and its descendants.
+ */
+export function textContent(element: XmlElement): string {
+    return element.children.map(child => typeof child === 'string' ? child : textContent(child)).join('');
+}
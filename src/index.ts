@@ -2,32 +2,193 @@ require('core-js');
 
 export {
     LanguageTag,
+    HourCycle,
+    Weekday,
+    UnicodeLocaleKeywords,
+    languageMatchThreshold,
     languageTag
 } from './LanguageTag';
 
 export {
+    LanguageName,
+    languageNames
+} from './DisplayNames';
+
+export {
+    LanguageRange,
+    parseAcceptLanguage,
+    filterLanguages,
+    lookupLanguage,
+    negotiateLanguages,
+    LanguageMatch,
+    matchLanguages
+} from './Negotiation';
+
+export {
+    AsyncLocalStore,
+    LanguageContext,
+    asyncLocalLanguageContext,
+    synchronousLanguageContext,
+    languageContext,
+    setLanguageContext,
+    runWithLanguage
+} from './LanguageContext';
+
+export {
+    FallbackEvent,
+    NoMatchingTranslationEvent,
+    DiagnosticsEvent,
+    DiagnosticsHandler,
+    diagnosticsHandler,
+    setDiagnosticsHandler
+} from './Diagnostics';
+
+export {
+    CacheOptions,
+    CacheStats,
+    EvictionPolicy
+} from './MessageCache';
+
+export {
+    Messages,
+    DeepPartial,
     LocalizedMessages,
     MessagesParameter,
     Language,
+    TranslationModule,
+    BundleLoader,
+    BundleNotLoadedError,
     MessageProvider,
     Translator,
+    TranslatorStructure,
+    ExtendingStructure,
+    ProviderStructure,
     pickPreferredLanguage,
+    currentLanguage,
     preferredLanguage,
+    PreferredLanguageListener,
+    onPreferredLanguageChange,
     setPreferredLanguage,
     selectPreferredLanguage,
     translate
 } from './Translator';
 
+export {
+    ArgumentValues,
+    ArgumentType,
+    ArgumentTypes,
+    Arguments,
+    messageArguments,
+    checkArguments,
+    messageTags,
+    checkTags
+} from './MessageArguments';
+
 export {
     FormatOptions,
     formats,
     setFormats,
     addFormats,
+    resetFormats,
+    runWithFormats,
     formatObject,
+    formatNamed,
+    formatTyped,
     format,
+    TagRenderer,
+    TagRenderers,
+    formatRich,
+    FormatterDescription,
+    describeFormatter,
     Plural,
     plural,
+    PluralCategory,
+    PluralType,
+    PluralForms,
+    pluralFormat,
+    ordinalFormat,
+    pluralCategories,
+    checkPluralForms,
     SelectOptions,
     select,
-    selectObject
-} from './Format';
\ No newline at end of file
+    selectObject,
+    ListOptions,
+    list
+} from './Format';
+
+export {
+    RelativeTimeUnit,
+    UnitStyle,
+    RelativeTimeThresholds,
+    RelativeTimeOptions,
+    relativeTime,
+    DurationStyle,
+    duration
+} from './RelativeTime';
+
+export {
+    ResourceMessages,
+    Resources,
+    ResourceOptions,
+    ResourceProblem,
+    ResourceError,
+    resourceTranslation,
+    loadResources
+} from './Resources';
+
+export {
+    CatalogMessageKind,
+    CatalogMessage,
+    CatalogTranslator,
+    CatalogProvider,
+    catalogMessages,
+    catalogTranslators
+} from './Catalog';
+
+export {
+    PseudoLocaleStyle,
+    PseudoLocaleOptions,
+    pseudoLocalizeText,
+    pseudoLocalizeMessage,
+    pseudoLocalizing
+} from './Pseudo';
+
+export {
+    InheritedKey,
+    LanguageCoverage,
+    TranslatorCoverage,
+    languageCoverage,
+    translationCoverage,
+    coverageTable
+} from './Coverage';
+
+export {
+    PoEntry,
+    PoFile,
+    GettextPluralForms,
+    gettextPluralForms,
+    PoOptions,
+    potFile,
+    poFile,
+    writePo,
+    parsePo,
+    poResources,
+    poTranslation
+} from './Gettext';
+
+export {
+    XliffState,
+    XliffUnit,
+    XliffFile,
+    XliffDocument,
+    xliffDocument,
+    writeXliff,
+    parseXliff,
+    xliffResources,
+    xliffTranslationModule
+} from './Xliff';
+
+export {
+    CliEnvironment,
+    runCli
+} from './Cli';
@@ -0,0 +1,44 @@
+declare module 'intl-messageformat-parser' {
+    interface MessageTextElement {
+        type: 'messageTextElement';
+        value: string;
+    }
+
+    interface SimpleFormat {
+        type: 'numberFormat' | 'dateFormat' | 'timeFormat';
+        style?: string;
+    }
+
+    interface OptionalFormatPattern {
+        type: 'optionalFormatPattern';
+        selector: string;
+        value: MessageFormatPattern;
+    }
+
+    interface PluralFormat {
+        type: 'pluralFormat';
+        ordinal: boolean;
+        offset: number;
+        options: OptionalFormatPattern[];
+    }
+
+    interface SelectFormat {
+        type: 'selectFormat';
+        options: OptionalFormatPattern[];
+    }
+
+    interface ArgumentElement {
+        type: 'argumentElement';
+        id: string;
+        format: SimpleFormat | PluralFormat | SelectFormat | null;
+    }
+
+    type Element = MessageTextElement | ArgumentElement;
+
+    interface MessageFormatPattern {
+        type: 'messageFormatPattern';
+        elements: Element[];
+    }
+
+    function parse(message: string): MessageFormatPattern;
+}